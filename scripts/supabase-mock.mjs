@@ -0,0 +1,84 @@
+// Local stand-in for the Supabase Management API endpoints Butler uses
+// (secrets and function deploys), kept in memory.
+//
+//   node scripts/supabase-mock.mjs
+//   SUPABASE_API_URL=http://localhost:54399 SUPABASE_ACCESS_TOKEN=test-token
+//
+// GET /_mock/state dumps everything received (secret values as digests).
+import http from "node:http";
+import crypto from "node:crypto";
+
+const PORT = Number(process.env.MOCK_PORT || 54399);
+const TOKEN = process.env.MOCK_TOKEN || "test-token";
+
+const projects = new Map();
+function project(ref) {
+  if (!projects.has(ref)) projects.set(ref, { secrets: new Map(), functions: new Map() });
+  return projects.get(ref);
+}
+const digest = (v) => crypto.createHash("sha256").update(v).digest("hex");
+
+function send(res, status, body) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(body === undefined ? "" : JSON.stringify(body));
+}
+
+async function readBody(req) {
+  const chunks = [];
+  for await (const c of req) chunks.push(c);
+  return Buffer.concat(chunks);
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  console.log(`[supabase-mock] ${req.method} ${url.pathname}${url.search}`);
+
+  if (url.pathname === "/_mock/state") {
+    const state = {};
+    for (const [ref, p] of projects) {
+      state[ref] = { secrets: Object.fromEntries(p.secrets), functions: Object.fromEntries(p.functions) };
+    }
+    return send(res, 200, state);
+  }
+  if (req.headers.authorization !== `Bearer ${TOKEN}`) return send(res, 401, { message: "Unauthorized" });
+
+  const m = /^\/v1\/projects\/([^/]+)\/(secrets|functions\/deploy)$/.exec(url.pathname);
+  if (!m) return send(res, 404, { message: "Not found" });
+  const p = project(m[1]);
+  const raw = await readBody(req);
+
+  if (m[2] === "secrets") {
+    if (req.method === "GET") {
+      return send(res, 200, Array.from(p.secrets, ([name, value]) => ({ name, value })));
+    }
+    if (req.method === "POST") {
+      for (const { name, value } of JSON.parse(raw.toString("utf8"))) {
+        if (name.startsWith("SUPABASE_")) return send(res, 400, { message: `Invalid secret name: ${name}` });
+        p.secrets.set(name, digest(value));
+      }
+      return send(res, 201);
+    }
+    if (req.method === "DELETE") {
+      for (const name of JSON.parse(raw.toString("utf8"))) p.secrets.delete(name);
+      return send(res, 200, {});
+    }
+  }
+
+  if (m[2] === "functions/deploy" && req.method === "POST") {
+    const slug = url.searchParams.get("slug");
+    const form = await new Request(url, { method: "POST", headers: req.headers, body: raw }).formData();
+    const metadata = JSON.parse(String(form.get("metadata") || "{}"));
+    const files = form.getAll("file").map((f) => ({ name: f.name, bytes: f.size }));
+    if (!files.some((f) => f.name === metadata.entrypoint_path)) {
+      return send(res, 400, { message: `Entrypoint ${metadata.entrypoint_path} not in bundle` });
+    }
+    const prev = p.functions.get(slug);
+    const fn = { id: prev?.id || crypto.randomUUID(), slug, version: (prev?.version || 0) + 1, status: "ACTIVE", metadata, files };
+    p.functions.set(slug, fn);
+    return send(res, 201, { id: fn.id, slug, version: fn.version, status: fn.status });
+  }
+
+  send(res, 405, { message: "Method not allowed" });
+});
+
+server.listen(PORT, () => console.log(`[supabase-mock] listening on http://localhost:${PORT}`));
@@ -0,0 +1,16 @@
+// Preloaded by `npm test`: the env lib requires these at import time. Each test
+// process gets its own data directory so stores never touch ./data.
+const fs = require("node:fs");
+const os = require("node:os");
+const path = require("node:path");
+
+const defaults = {
+  APP_ID: "1",
+  PRIVATE_KEY: "test-key",
+  BUTLER_TOKEN: "test-token",
+  WORKFLOW_EDIT_KEY: "test-workflow-key",
+  REPO_OWNER: "acme",
+  REPO_NAME: "app",
+};
+for (const [k, v] of Object.entries(defaults)) process.env[k] ??= v;
+process.env.BUTLER_DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), "butler-test-"));
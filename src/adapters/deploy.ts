@@ -1,10 +1,34 @@
-import { ENV } from '../lib/env'
+import { startPreview, type PreviewProvider } from '../lib/deployments'
+
 export const deployTools = {
-  async create_preview({ provider='vercel' }:{ provider?:'vercel'|'render' }) {
-    if (provider === 'vercel' && ENV.VERCEL_DEPLOY_HOOK_URL) {
-      await fetch(ENV.VERCEL_DEPLOY_HOOK_URL, { method: 'POST' })
-      return { ok: true, url: '(check Vercel project for the new preview)' }
+  /**
+   * Deploys `commit` (default: head of `branch`) as a preview and returns its URL once
+   * ready. A build still running after waitSeconds (or at the run's deadline) returns state
+   * "building" with the previewId; a smoke.run step that follows keeps waiting for it, GET
+   * /previews/{id} follows it and `comment` still posts when it settles.
+   */
+  async create_preview({ provider = 'vercel', owner, repo, branch, commit, serviceId, comment = false, prNumber, waitSeconds, deadline, calledBy }:{
+    provider?: PreviewProvider, owner:string, repo:string, branch:string, commit?:string, serviceId?:string,
+    comment?:boolean, prNumber?:number, waitSeconds?:number, deadline?:number, calledBy?:string
+  }) {
+    if (provider !== 'vercel' && provider !== 'render') throw new Error(`invalid: unknown provider ${provider}`)
+    if (!branch) throw new Error('invalid: branch is required')
+    const rec = await startPreview({
+      provider, repo: `${owner}/${repo}`, branch, commit, serviceId, comment, prNumber, waitSeconds, deadline, createdBy: calledBy || 'unknown'
+    })
+    // a failed build stops the run; the error carries the log excerpt since step errors are plain text
+    if (rec.state === 'failed' || rec.state === 'timed_out') {
+      throw new Error(`preview_${rec.state} ${rec.id}: ${rec.error || rec.state}${rec.logExcerpt ? `\n${rec.logExcerpt}` : ''}`)
+    }
+    return {
+      previewId: rec.id,
+      provider: rec.provider,
+      state: rec.state,
+      url: rec.url,
+      commit: rec.commit,
+      inspectorUrl: rec.inspectorUrl ?? null,
+      logExcerpt: rec.logExcerpt ?? null,
+      commentUrl: rec.commentUrl ?? null
     }
-    return { ok: true, note: 'No deploy hook configured' }
   }
 }
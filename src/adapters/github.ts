@@ -1,27 +1,44 @@
-import { ghClient, mainSha, newBranch, getFile, decode, upsert, openPR } from '../lib/github'
+import { clientForRepo, defaultBranch, mainSha, newBranch, getFile, decode, upsert, openPR } from '../lib/github'
 import { ENV } from '../lib/env'
 import { isPathAllowed } from '../lib/allowlist'
+import { checkFile } from '../lib/limits'
+import type { SecretAllow } from '../lib/secrets'
+
+/** Writes go to Butler branches and land through PRs; never straight onto the default or a protected branch */
+async function assertWritableBranch(gh: any, owner: string, repo: string, branch: string) {
+  if (branch === await defaultBranch(gh, owner, repo)) throw new Error(`branch_not_allowed: ${branch} is the default branch`)
+  try {
+    const { data } = await gh.rest.repos.getBranch({ owner, repo, branch })
+    if (data.protected) throw new Error(`branch_not_allowed: ${branch} is protected`)
+  } catch (err: any) {
+    // a missing branch fails in the write itself
+    if (err?.status !== 404) throw err
+  }
+}
 
 export const githubTools = {
-  async write_file({ owner, repo, branch, path, content, message = 'chore(ai): write file' }:{
-    owner:string, repo:string, branch:string, path:string, content:string, message?:string
+  async write_file({ owner, repo, branch, path, content, message = 'chore(ai): write file', secretsAllow = [] }:{
+    owner:string, repo:string, branch:string, path:string, content:string, message?:string, secretsAllow?:SecretAllow[]
   }) {
     if (!isPathAllowed(path)) throw new Error(`path_not_allowed: ${path}`)
-    const gh = ghClient()
-    await upsert(gh, owner, repo, branch, path, content, message)
+    const problems = checkFile(path, Buffer.from(content, 'utf8'))
+    if (problems.length) throw new Error(`invalid: ${problems.join('; ')}`)
+    const gh = await clientForRepo(owner, repo)
+    await assertWritableBranch(gh, owner, repo, branch)
+    await upsert(gh, owner, repo, branch, path, content, message, secretsAllow)
     return { ok: true }
   },
 
   async open_pr({ owner, repo, head, base='main', title, body }:{
     owner:string, repo:string, head:string, base?:string, title:string, body:string
   }) {
-    const gh = ghClient()
+    const gh = await clientForRepo(owner, repo)
     const url = await openPR(gh, owner, repo, head, base, title, body)
     return { url }
   },
 
   async create_branch({ owner, repo, from='main', name }:{ owner:string, repo:string, from?:string, name:string }) {
-    const gh = ghClient()
+    const gh = await clientForRepo(owner, repo)
     const sha = await mainSha(gh, owner, repo, from)
     await newBranch(gh, owner, repo, sha, name)
     return { ok: true }
@@ -0,0 +1,45 @@
+import { githubTools } from './github'
+import { supabaseTools } from './supabase'
+import { STRIPE_WRITES, stripeMode, stripeTools } from './stripe'
+import { deployTools } from './deploy'
+import { smokeTools } from './smoke'
+import { emailTools } from './email'
+
+export type ToolFn = (args: any) => Promise<any>
+
+export const toolsets: Record<string, Record<string, ToolFn>> = {
+  github: githubTools,
+  supabase: supabaseTools,
+  stripe: stripeTools,
+  deploy: deployTools,
+  smoke: smokeTools,
+  email: emailTools
+}
+
+/** "github.write_file" -> { tool: 'github', action: 'write_file' } */
+export function splitToolName(name: string) {
+  const i = name.indexOf('.')
+  if (i <= 0 || i === name.length - 1) return null
+  return { tool: name.slice(0, i), action: name.slice(i + 1) }
+}
+
+/**
+ * The action name policy rules match for a step. Stripe actions carry their key
+ * mode ("read_connect_account:test"); every other tool uses the bare action.
+ */
+export function policyAction(tool: string, action: string, args: Record<string, any>) {
+  return tool === 'stripe' ? `${action}:${stripeMode(args)}` : action
+}
+
+/** Live-mode Stripe writes; these never run without an approval */
+export function isLiveWrite(tool: string, action: string, args: Record<string, any>) {
+  return tool === 'stripe' && STRIPE_WRITES.includes(action) && stripeMode(args) === 'live'
+}
+
+export function resolveTool(name: string): { tool: string, action: string, fn: ToolFn } | null {
+  const parts = splitToolName(name)
+  if (!parts) return null
+  const set = toolsets[parts.tool]
+  if (!set || !Object.prototype.hasOwnProperty.call(set, parts.action)) return null
+  return { ...parts, fn: set[parts.action] }
+}
@@ -0,0 +1,40 @@
+import { after, before, test } from 'node:test'
+import assert from 'node:assert/strict'
+import http from 'http'
+import type { AddressInfo } from 'net'
+import { smokeTools } from './smoke'
+
+let server: http.Server
+let baseUrl: string
+let hits = 0
+
+before(async () => {
+  server = http.createServer((_req, res) => {
+    hits++
+    res.end('ok')
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+})
+
+after(() => {
+  server.close()
+})
+
+const target = { owner: 'acme', repo: 'app', branch: 'butler/x', checks: [{ path: '/' }] }
+
+test('a baseUrl that is neither a preview nor a smoke target is refused before any request', async () => {
+  await assert.rejects(smokeTools.run({ ...target, baseUrl }), /target_not_allowed/)
+  await assert.rejects(smokeTools.run({ ...target, baseUrl: 'http://169.254.169.254/latest' }), /target_not_allowed/)
+  assert.equal(hits, 0)
+})
+
+test('policy smoke_targets allow an origin', async () => {
+  const report = await smokeTools.run({ ...target, baseUrl: `${baseUrl}/`, smokeTargets: [baseUrl] })
+  assert.equal(report.ok, true)
+  assert.equal(hits, 1)
+})
+
+test('without baseUrl a preview of the branch is required', async () => {
+  await assert.rejects(smokeTools.run(target), /no baseUrl and no preview/)
+})
@@ -0,0 +1,48 @@
+import { awaitPreview, getPreview, isPreviewOrigin, latestPreview } from '../lib/deployments'
+import { renderSmoke, runSmoke, SmokeChecks, SMOKE_BUDGET_MS } from '../lib/smoke'
+
+const MAX_TIMEOUT_MS = 10_000
+
+/** URL of `previewId` (or the branch's newest preview) once ready, waiting for a running build until `deadline` */
+async function previewUrl(repo: string, branch: string, previewId: string | undefined, deadline: number) {
+  const found = previewId ? getPreview(previewId) : latestPreview(repo, branch)
+  if (previewId && found?.repo !== repo) throw new Error(`invalid: unknown preview ${previewId}`)
+  if (!found) throw new Error(`invalid: no baseUrl and no preview for ${branch}`)
+  const rec = (await awaitPreview(found.id, deadline))!
+  if (rec.state === 'building') {
+    throw new Error(`preview_building ${rec.id}: still building when the run ran out of time; run the smoke step again once GET /previews/${rec.id} reports ready`)
+  }
+  if (rec.state !== 'ready' || !rec.url) throw new Error(`preview_${rec.state} ${rec.id}: ${rec.error || 'no URL to test'}`)
+  return rec.url
+}
+
+export const smokeTools = {
+  /**
+   * Runs HTTP checks against `baseUrl`, defaulting to `previewId` (set by the run from a
+   * deploy.create_preview step before this one) or else the branch's newest preview; a
+   * preview still building is waited for until `deadline`. An explicit baseUrl must be served from one
+   * of the repo's recorded previews or the policy's smoke_targets, so a run cannot aim
+   * Butler at internal hosts. A failing check fails the step, so later steps such as
+   * opening the PR do not run; failRun: false only reports.
+   */
+  async run({ baseUrl, previewId, checks, timeoutMs = MAX_TIMEOUT_MS, failRun = true, owner, repo, branch, smokeTargets = [], deadline = Date.now() + SMOKE_BUDGET_MS }:{
+    baseUrl?:string, previewId?:string, checks:unknown, timeoutMs?:number, failRun?:boolean, owner:string, repo:string, branch:string,
+    smokeTargets?:string[], deadline?:number
+  }) {
+    const parsed = SmokeChecks.safeParse(checks)
+    if (!parsed.success) {
+      throw new Error(`invalid: ${parsed.error.issues.map(i => `checks.${i.path.join('.')}: ${i.message}`).join('; ')}`)
+    }
+    const base = (baseUrl || await previewUrl(`${owner}/${repo}`, branch, previewId, deadline)).replace(/\/+$/, '')
+    if (!/^https?:\/\//.test(base)) throw new Error(`invalid: baseUrl must be http(s), got ${base}`)
+    const { origin } = new URL(base)
+    if (baseUrl && !smokeTargets.includes(origin) && !isPreviewOrigin(`${owner}/${repo}`, origin)) {
+      throw new Error(`target_not_allowed: ${origin} is neither a preview of ${owner}/${repo} nor in the policy's smoke_targets`)
+    }
+
+    const budget = Math.min(SMOKE_BUDGET_MS, deadline - Date.now())
+    const report = await runSmoke(base, parsed.data, Math.min(Math.max(1, timeoutMs), MAX_TIMEOUT_MS), budget)
+    if (!report.ok && failRun) throw new Error(`smoke_failed ${renderSmoke(report)}`)
+    return report
+  }
+}
@@ -0,0 +1,74 @@
+import { after, before, test } from 'node:test'
+import assert from 'node:assert/strict'
+import http from 'http'
+import type { AddressInfo } from 'net'
+import { ENV } from '../lib/env'
+import { encodeForm } from '../lib/stripe'
+import { isLiveWrite, policyAction } from './index'
+import { stripeTools } from './stripe'
+
+let server: http.Server
+const seen: { method: string, url: string, auth: string, body: string }[] = []
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    let body = ''
+    req.on('data', chunk => { body += chunk })
+    req.on('end', () => {
+      seen.push({ method: req.method!, url: req.url!, auth: String(req.headers.authorization), body })
+      res.setHeader('Content-Type', 'application/json')
+      if (req.url!.startsWith('/v1/payouts')) return res.end(JSON.stringify({ object: 'list', data: [], has_more: false }))
+      res.end(JSON.stringify({ id: 'prod_1', object: 'product', name: 'Pro', livemode: false }))
+    })
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  Object.assign(ENV, {
+    STRIPE_API_URL: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    STRIPE_SECRET_KEY_TEST: 'sk_test_123',
+    STRIPE_SECRET_KEY_LIVE: 'rk_live_456'
+  })
+})
+
+after(() => {
+  server.close()
+})
+
+test('encodeForm nests objects and arrays the way Stripe expects', () => {
+  assert.deepEqual(encodeForm({ status: 'failed', created: { gte: 1700000000 }, skip: undefined, none: null }), ['status=failed', 'created%5Bgte%5D=1700000000'])
+  assert.deepEqual(encodeForm({ metadata: { 'a b': 'x&y' }, expand: ['data.source'] }), ['metadata%5Ba%20b%5D=x%26y', 'expand%5B0%5D=data.source'])
+  assert.deepEqual(encodeForm({ recurring: { interval: 'month' }, active: false }), ['recurring%5Binterval%5D=month', 'active=false'])
+})
+
+test('only live-mode writes count as live writes', () => {
+  assert.equal(isLiveWrite('stripe', 'create_product', { mode: 'live' }), true)
+  assert.equal(isLiveWrite('stripe', 'create_price', { mode: 'live' }), true)
+  assert.equal(isLiveWrite('stripe', 'create_product', {}), false)
+  assert.equal(isLiveWrite('stripe', 'create_product', { mode: 'LIVE' }), false)
+  assert.equal(isLiveWrite('stripe', 'read_connect_account', { mode: 'live' }), false)
+  assert.equal(isLiveWrite('stripe', 'list_failed_payouts', { mode: 'live' }), false)
+  assert.equal(isLiveWrite('github', 'write_file', { mode: 'live' }), false)
+  assert.equal(policyAction('stripe', 'create_product', { mode: 'live' }), 'create_product:live')
+  assert.equal(policyAction('stripe', 'create_product', {}), 'create_product:test')
+})
+
+test('a live read uses the live key and sends nested filters in the query', async () => {
+  seen.length = 0
+  const out = await stripeTools.list_failed_payouts({ mode: 'live', days: 1, limit: 500 })
+  assert.equal(out.mode, 'live')
+  const [req] = seen
+  assert.equal(req.method, 'GET')
+  assert.equal(req.auth, 'Bearer rk_live_456')
+  const q = new URL(req.url, 'http://x').searchParams
+  assert.equal(q.get('status'), 'failed')
+  assert.equal(q.get('limit'), '100')
+  assert.ok(Math.abs(Number(q.get('created[gte]')) - (Math.floor(Date.now() / 1000) - 86400)) < 5)
+})
+
+test('writes are form-encoded and replay_event refuses live mode', async () => {
+  seen.length = 0
+  await stripeTools.create_product({ name: 'Pro', metadata: { plan: 'pro' } })
+  assert.equal(seen[0].auth, 'Bearer sk_test_123')
+  assert.equal(seen[0].body, 'name=Pro&metadata%5Bcreated_by%5D=butler&metadata%5Bplan%5D=pro')
+  await assert.rejects(stripeTools.replay_event({ eventId: 'evt_1', mode: 'live' }), /test_mode_only/)
+  assert.equal(seen.length, 1)
+})
@@ -1,6 +1,87 @@
+import {
+  stripeRequest,
+  type StripeAccount,
+  type StripeList,
+  type StripeMode,
+  type StripePayout,
+  type StripePrice,
+  type StripeProduct
+} from '../lib/stripe'
+
+// Actions that change Stripe state. In live mode they always need a policy approval (see lib/run).
+export const STRIPE_WRITES = ['create_product', 'create_price', 'replay_event']
+
+/** Steps pick the mode with args.mode; test unless asked otherwise */
+export function stripeMode(args: { mode?: string }): StripeMode {
+  return args.mode === 'live' ? 'live' : 'test'
+}
+
+function testOnly(action: string, mode: StripeMode) {
+  if (mode !== 'test') throw new Error(`test_mode_only: stripe.${action} only runs with test keys`)
+}
+
 export const stripeTools = {
-  async read_connect_account({ accountId }:{ accountId:string }) {
-    // Placeholder: call Stripe API with TEST key to fetch account capabilities
-    return { id: accountId, charges_enabled: true, payouts_enabled: true }
+  /** Capabilities and outstanding requirements of a Connect account */
+  async read_connect_account({ accountId, mode }:{ accountId:string, mode?:StripeMode }) {
+    const a = await stripeRequest<StripeAccount>(stripeMode({ mode }), 'GET', `/v1/accounts/${encodeURIComponent(accountId)}`)
+    return {
+      id: a.id,
+      mode: stripeMode({ mode }),
+      charges_enabled: a.charges_enabled,
+      payouts_enabled: a.payouts_enabled,
+      details_submitted: a.details_submitted,
+      capabilities: a.capabilities || {},
+      requirements: {
+        currently_due: a.requirements?.currently_due || [],
+        past_due: a.requirements?.past_due || [],
+        eventually_due: a.requirements?.eventually_due || [],
+        pending_verification: a.requirements?.pending_verification || [],
+        disabled_reason: a.requirements?.disabled_reason ?? null,
+        current_deadline: a.requirements?.current_deadline ?? null
+      }
+    }
+  },
+
+  /** Failed payouts of the platform, or of a connected account, in the last `days` */
+  async list_failed_payouts({ accountId, days = 30, limit = 20, mode }:{ accountId?:string, days?:number, limit?:number, mode?:StripeMode }) {
+    const since = Math.floor(Date.now() / 1000) - Math.max(1, days) * 86400
+    const list = await stripeRequest<StripeList<StripePayout>>(stripeMode({ mode }), 'GET', '/v1/payouts', {
+      status: 'failed',
+      limit: Math.min(Math.max(limit, 1), 100),
+      created: { gte: since }
+    }, accountId)
+    return {
+      mode: stripeMode({ mode }),
+      accountId: accountId ?? null,
+      payouts: list.data.map(p => ({
+        id: p.id, amount: p.amount, currency: p.currency, created: p.created, arrival_date: p.arrival_date,
+        failure_code: p.failure_code, failure_message: p.failure_message
+      })),
+      has_more: list.has_more
+    }
+  },
+
+  async create_product({ name, description, metadata, mode }:{ name:string, description?:string, metadata?:Record<string,string>, mode?:StripeMode }) {
+    if (!name) throw new Error('invalid: name is required')
+    const p = await stripeRequest<StripeProduct>(stripeMode({ mode }), 'POST', '/v1/products', { name, description, metadata: { created_by: 'butler', ...metadata } })
+    return { id: p.id, name: p.name, livemode: p.livemode }
+  },
+
+  async create_price({ product, unitAmount, currency = 'usd', interval, mode }:{
+    product:string, unitAmount:number, currency?:string, interval?:'day'|'week'|'month'|'year', mode?:StripeMode
+  }) {
+    if (!product || !Number.isInteger(unitAmount) || unitAmount < 0) throw new Error('invalid: product and a non-negative integer unitAmount are required')
+    const p = await stripeRequest<StripePrice>(stripeMode({ mode }), 'POST', '/v1/prices', {
+      product, unit_amount: unitAmount, currency, recurring: interval ? { interval } : undefined
+    })
+    return { id: p.id, product: p.product, unit_amount: p.unit_amount, currency: p.currency, recurring: p.recurring, livemode: p.livemode }
+  },
+
+  /** Re-sends a test-mode event to a webhook endpoint (what `stripe events resend` does) */
+  async replay_event({ eventId, webhookEndpoint, mode }:{ eventId:string, webhookEndpoint?:string, mode?:StripeMode }) {
+    testOnly('replay_event', stripeMode({ mode }))
+    if (!/^evt_/.test(eventId || '')) throw new Error('invalid: eventId must be an evt_ id')
+    await stripeRequest('test', 'POST', `/v1/events/${encodeURIComponent(eventId)}/retry`, { webhook_endpoint: webhookEndpoint })
+    return { ok: true, eventId, webhookEndpoint: webhookEndpoint ?? null }
   }
 }
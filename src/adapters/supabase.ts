@@ -1,18 +1,48 @@
 import { ENV } from '../lib/env'
+import { migrateDown, migrateUp, resolveMigration } from '../lib/migrations'
+import { clientForRepo, readFolder } from '../lib/github'
+import { deployFunction, syncSecrets } from '../lib/supabase'
 
 function keyForEnv(env: 'staging'|'prod') {
   return env === 'prod' ? ENV.SUPABASE_SERVICE_ROLE_KEY_PROD : ENV.SUPABASE_SERVICE_ROLE_KEY_STAGING
 }
 
 export const supabaseTools = {
-  async deploy_function({ name, folder }:{ name:string, folder:string }) {
-    // Simplified placeholder: in real code, upload the function bundle via Supabase CLI or REST.
-    return { ok: true, note: `Deploy ${name} from ${folder} (wire CLI/REST later)` }
+  /**
+   * Bundles `folder` (default supabase/functions/<name>) from the run's branch, plus
+   * supabase/functions/_shared when present, and deploys it to the env's project.
+   */
+  async deploy_function({ env, owner, repo, branch, name, folder, entrypoint = 'index.ts', verifyJwt = true }:{
+    env:'staging'|'prod', owner:string, repo:string, branch:string, name:string, folder?:string, entrypoint?:string, verifyJwt?:boolean
+  }) {
+    if (!/^[A-Za-z][A-Za-z0-9_-]*$/.test(name || '')) throw new Error(`invalid: function name ${name}`)
+    const dir = (folder || `supabase/functions/${name}`).replace(/\/+$/, '')
+    const gh = await clientForRepo(owner, repo)
+    const files = await readFolder(gh, owner, repo, branch, dir)
+    if (!files.some(f => f.path === `${dir}/${entrypoint}`)) throw new Error(`file_not_found: ${dir}/${entrypoint}@${branch}`)
+    if (!dir.endsWith('/_shared')) {
+      const shared = await readFolder(gh, owner, repo, branch, 'supabase/functions/_shared')
+      files.push(...shared)
+    }
+    const bytes = files.reduce((n, f) => n + f.content.length, 0)
+    if (bytes > ENV.MAX_PAYLOAD_BYTES) throw new Error(`invalid: bundle is ${bytes} bytes; MAX_PAYLOAD_BYTES is ${ENV.MAX_PAYLOAD_BYTES}`)
+    const importMap = ['deno.json', 'import_map.json'].map(f => `${dir}/${f}`).find(p => files.some(f => f.path === p))
+    const out = await deployFunction(env, name, files, {
+      entrypoint_path: `${dir}/${entrypoint}`,
+      import_map_path: importMap,
+      verify_jwt: verifyJwt
+    })
+    return { ok: true, env, ...out, files: files.map(f => f.path), bytes }
   },
-  async set_function_env({ name, env: targetEnv, kv }:{ name:string, env:'staging'|'prod', kv:Record<string,string> }) {
-    // Placeholder: set env via Supabase management API/CLI
-    const keys = Object.keys(kv)
-    return { ok: true, note: `Set ${keys.join(',')} on ${name} (${targetEnv})` }
+  /**
+   * Sets secrets on the env's project (Supabase secrets are project-wide; `name` is
+   * informational). Reports which names were created, updated, unchanged or
+   * removed; values are never returned.
+   */
+  async set_function_env({ env, name, kv, remove = [] }:{ env:'staging'|'prod', name?:string, kv:Record<string,string>, remove?:string[] }) {
+    if (!kv || typeof kv !== 'object') throw new Error('invalid: kv must be an object of name -> value')
+    const diff = await syncSecrets(env, Object.fromEntries(Object.entries(kv).map(([k, v]) => [k, String(v)])), remove)
+    return { ok: true, env, function: name, ...diff }
   },
   async invoke_rpc({ url, anonKey, schema='app', fn, args }:{ url?:string, anonKey?:string, schema?:string, fn:string, args:any }) {
     const base = url || ENV.SUPABASE_URL
@@ -25,9 +55,19 @@ export const supabaseTools = {
     if (!res.ok) throw new Error(`rpc_failed ${fn} ${res.status}`)
     return await res.json()
   },
-  async sql_migrate({ env, sql }:{ env:'staging'|'prod', sql:string }) {
-    // In real usage: use Postgres connection or Supabase SQL API. For now, block prod.
-    if (env === 'prod') throw new Error('sql_migrate on prod requires approval (blocked by default)')
-    return { ok: true, note: 'Simulated staging migration (wire SQL API/psql later)' }
+  /**
+   * Runs a migration against the env's Postgres (see lib/migrations). The SQL comes
+   * inline (`sql`, `down`) or from `path` on the run's branch, in which case version
+   * and name default to the file name. direction "down" rolls the version back.
+   */
+  async sql_migrate({ env, owner, repo, branch, path, version, name, sql, down, direction = 'up', calledBy = 'butler' }:{
+    env:'staging'|'prod', owner:string, repo:string, branch:string, path?:string,
+    version?:string, name?:string, sql?:string, down?:string, direction?:'up'|'down', calledBy?:string
+  }) {
+    const m = await resolveMigration({ owner, repo, branch, path, sql, down, version, name })
+    if (!m.version) throw new Error('invalid: version (or a path named <version>_<name>.sql) is required')
+    if (direction === 'down') return migrateDown(env, m.version, m.down)
+    if (!m.sql) throw new Error('invalid: sql (or path) is required')
+    return migrateUp(env, { version: m.version, name: m.name, up: m.sql, down: m.down }, calledBy)
   }
 }
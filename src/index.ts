@@ -7,9 +7,57 @@ import express, {
 } from "express";
 import cors from "cors";
 import { Octokit } from "octokit";
-import { createAppAuth } from "@octokit/auth-app";
 import { ENV } from "./lib/env";
-import { isPathAllowed, isWorkflowPath, SAFE_WRITE_GLOBS } from "./lib/allowlist";
+import { isPathAllowed, matchesGlob, SAFE_WRITE_GLOBS } from "./lib/allowlist";
+import { assertRepoScope, assertScope, authenticate, type Caller } from "./lib/keys";
+import {
+  applyApprovalsNeeded,
+  approvalsNeeded,
+  assertSqlUnchanged,
+  authorizeSteps,
+  prepareSteps,
+  restoreSecrets,
+  RUN_BUDGET_MS,
+  runSteps,
+  splitRepo,
+  sqlChecksums,
+  unknownSteps,
+  withholdSecrets,
+  workflowGate,
+  writtenPaths,
+} from "./lib/run";
+import { lintSql, renderSqlReports, SqlReport } from "./lib/sqlrisk";
+import { httpError, isHttpError } from "./lib/errors";
+import {
+  approve,
+  createApproval,
+  getApproval,
+  listApprovals,
+  registerExecutor,
+  reject,
+  type ApprovalRecord,
+} from "./lib/approvals";
+import {
+  autoMergeDecision,
+  enforce,
+  enforcePath,
+  loadPolicy,
+  secretsAllowFor,
+} from "./policy";
+import { ApplyReq, RunReq, type EditT } from "./types";
+import { computeChanges, editPaths, isChanged, isUtf8Text, type FileChange } from "./lib/edits";
+import { assertNoSecrets, scanChanges } from "./lib/secrets";
+import { clientForRepo, treeReader } from "./lib/github";
+import { previewChanges } from "./lib/preview";
+import { getPlanner, validatePlan } from "./planner";
+import { assertLimits, checkBatch, checkResults } from "./lib/limits";
+import { getPr, listPrs, trackPr } from "./lib/prs";
+import { installChatOps } from "./lib/chatops";
+import { getApply, recordApply, refreshChecks, startAutoMerge } from "./lib/applies";
+import { getPreview, refreshPreview } from "./lib/deployments";
+import { handleWebhook, verifySignature } from "./lib/webhooks";
+import { appendAudit, queryAudit, summarizeEdits, verifyAudit, AuditEntry, AuditNote } from "./lib/audit";
+import { getPlan, savePlan, type StoredPlan } from "./lib/plans";
 
 /* -------------------------------------------------------------------------- */
 /* Helpers: hardening + middleware                                            */
@@ -44,6 +92,13 @@ function installTimeoutGuard(app: express.Express, ms = 15_000) {
 function installJsonErrorHandler(app: express.Express) {
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   app.use((err: unknown, _req: Request, res: Response, _next: NextFunction) => {
+    res.locals.auditError = auditErrorOf(err);
+    if (isHttpError(err)) {
+      if (typeof err.details.retryAfter === "number") {
+        res.setHeader("Retry-After", String(err.details.retryAfter));
+      }
+      return res.status(err.status).json({ ok: false, error: err.code, ...err.details });
+    }
     const message =
       typeof err === "object" && err && "message" in (err as any)
         ? (err as any).message
@@ -53,30 +108,76 @@ function installJsonErrorHandler(app: express.Express) {
   });
 }
 
-// Require Butler token; reply 401 JSON if missing/invalid
+// Require a Butler API key; reply 401 JSON if missing/invalid, else attach res.locals.caller
 function requireButlerToken(req: Request, res: Response, next: NextFunction) {
-  const hdr = req.header("X-Butler-Token") || "";
-  const expected = ENV.BUTLER_TOKEN || process.env.BUTLER_TOKEN || "";
-  if (!expected || hdr !== expected) {
+  const caller = authenticate(req.header("X-Butler-Token") || "");
+  if (!caller) {
     return res.status(401).json({ ok: false, error: "unauthorized" });
   }
+  res.locals.caller = caller;
   next();
 }
 
+function callerOf(res: Response): Caller {
+  return res.locals.caller as Caller;
+}
+
+// Handlers fill this in as they go; the audit middleware writes it when the response finishes
+function auditNote(res: Response): AuditNote {
+  return (res.locals.audit ??= {});
+}
+
+function auditErrorOf(err: unknown): AuditEntry["error"] {
+  if (isHttpError(err)) {
+    const rule = typeof err.details.rule === "string" ? err.details.rule : undefined;
+    return { code: err.code, rule };
+  }
+  return { code: "internal_error", message: err instanceof Error ? err.message : String(err) };
+}
+
 /* -------------------------------------------------------------------------- */
 /* App bootstrap                                                              */
 /* -------------------------------------------------------------------------- */
 
 const app = express();
 app.use(cors());
-app.use(express.json({ limit: "2mb" }));
+app.use(
+  express.json({
+    limit: "2mb",
+    // webhook signatures are computed over the exact bytes received
+    verify: (req, _res, buf) => {
+      (req as any).rawBody = buf;
+    },
+  })
+);
 
 // request log
 app.use((req, res, next) => {
   const t0 = Date.now();
   res.on("finish", () => {
     const ms = Date.now() - t0;
-    console.log(`[butler] ${req.method} ${req.path} -> ${res.statusCode} (${ms}ms)`);
+    const who = res.locals.caller?.name ?? "-";
+    console.log(`[butler] ${who} ${req.method} ${req.path} -> ${res.statusCode} (${ms}ms)`);
+  });
+  next();
+});
+
+// audit trail: every state-changing request, including refused ones (webhook deliveries are GitHub's, not callers')
+app.use((req, res, next) => {
+  if (req.method === "GET" || req.method === "HEAD" || req.method === "OPTIONS") return next();
+  if (req.path.startsWith("/webhooks/")) return next();
+  res.on("finish", () => {
+    try {
+      appendAudit({
+        ...auditNote(res),
+        caller: res.locals.caller ?? null,
+        endpoint: `${req.method} ${req.path}`,
+        status: res.statusCode,
+        error: res.locals.auditError ?? (res.statusCode === 401 ? { code: "unauthorized" } : undefined),
+      });
+    } catch (err) {
+      console.error("audit write failed:", err);
+    }
   });
   next();
 });
@@ -88,28 +189,9 @@ installTimeoutGuard(app, 15_000);
 /* Utility (Octokit + git helpers)                                            */
 /* -------------------------------------------------------------------------- */
 
-function getPrivateKeyPEM(): string {
-  const b64 = process.env.PRIVATE_KEY_BASE64;
-  if (b64 && b64.trim()) return Buffer.from(b64, "base64").toString("utf8");
-  return process.env.PRIVATE_KEY || "";
-}
-
-function makeOctokit(): Octokit {
-  const appId = Number(ENV.APP_ID);
-  const installationId = Number(ENV.INSTALLATION_ID);
-  if (!appId) throw new Error(`APP_ID missing or invalid: ${ENV.APP_ID}`);
-  if (!installationId)
-    throw new Error(`INSTALLATION_ID missing or invalid: ${ENV.INSTALLATION_ID}`);
-
-  const privateKey = getPrivateKeyPEM();
-  if (!privateKey.includes("BEGIN") || !privateKey.includes("PRIVATE KEY")) {
-    throw new Error("Private key not configured correctly");
-  }
-
-  return new Octokit({
-    authStrategy: createAppAuth,
-    auth: { appId, privateKey, installationId },
-  });
+// Installation client for the target repo (resolved per request; repo allow/deny enforced)
+function makeOctokit(owner: string, repo: string): Promise<Octokit> {
+  return clientForRepo(owner, repo);
 }
 
 interface GitRef {
@@ -120,30 +202,12 @@ interface GitCommit {
   tree: { sha: string };
 }
 
-function validatePathsOrDie(req: Request, res: Response, edits: any[]): boolean {
-  for (const e of edits) {
-    const p = (e && (e.path || e.from)) as string | undefined;
-    if (!p) {
-      res
-        .status(400)
-        .json({ error: "invalid", details: [{ path: ["edits", "path"], message: "Required" }] });
-      return false;
-    }
-    if (!isPathAllowed(p)) {
-      res.status(400).json({ error: "path_not_allowed", path: p });
-      return false;
-    }
-    if (isWorkflowPath(p)) {
-      const approve = String(
-        req.header("X-Butler-Approve-Workflows") || (req.body?.workflowApprovalKey ?? "")
-      );
-      if (!approve || approve !== ENV.WORKFLOW_EDIT_KEY) {
-        res.status(403).json({ error: "workflow_edit_blocked", path: p });
-        return false;
-      }
-    }
+// Allowlist check for every path an edit touches (both ends of a rename);
+// workflow paths are gated separately (see workflowGate)
+function validatePaths(edits: EditT[]): void {
+  for (const p of edits.flatMap(editPaths)) {
+    if (!isPathAllowed(p)) throw httpError(400, "path_not_allowed", { path: p });
   }
-  return true;
 }
 
 async function ensureBranchAndGetHeadSha(
@@ -165,64 +229,53 @@ async function ensureBranchAndGetHeadSha(
   return baseSha;
 }
 
-async function commitBatch(
+// Checks run on the computed result of a batch before anything is written (limits, secrets)
+type BatchInspector = (files: FileChange[]) => void;
+
+// Builds (but does not publish) a commit applying `edits` to exactly the tree of parentSha
+async function buildCommit(
   octokit: Octokit,
   owner: string,
   repo: string,
-  branch: string,
   parentSha: string,
-  edits: Array<
-    | { op: "write"; path: string; mode: "create" | "overwrite"; content: string }
-    | { op: "replace"; path: string; search: string; replace: string }
-  >
-): Promise<string> {
+  edits: EditT[],
+  inspect: BatchInspector
+): Promise<{ sha: string; noops: number[] }> {
   const parentCommit = await octokit.rest.git.getCommit({ owner, repo, commit_sha: parentSha });
   const baseTree = (parentCommit.data as unknown as GitCommit).tree.sha;
 
+  const reader = treeReader(octokit, owner, repo, baseTree);
+  const { files, noops } = await computeChanges(edits, reader.read);
+  inspect(files);
+  for (const i of noops) console.warn(`No changes made by edit ${i} (${editPaths(edits[i]).join(" -> ")})`);
+
+  // one entry per changed path; sha: null deletes (the old side of a rename, op: "delete")
   const treeEntries: Array<{
     path: string;
-    mode: string;
+    mode: "100644" | "100755" | "120000";
     type: "blob";
-    sha?: string;
+    sha?: string | null;
     content?: string;
   }> = [];
-  const processedPaths = new Set<string>();
-
-  for (const e of edits) {
-    if (e.op === "write") {
-      treeEntries.push({ path: e.path, mode: "100644", type: "blob", content: e.content });
-      processedPaths.add(e.path);
-    } else if (e.op === "replace") {
-      try {
-        const { data } = await octokit.rest.repos.getContent({
-          owner,
-          repo,
-          path: e.path,
-          ref: branch,
-        });
-        if (!("content" in data)) {
-          console.warn(`Skipping replace on directory: ${e.path}`);
-          continue;
-        }
-        const current = Buffer.from((data as any).content, "base64").toString("utf8");
-        const next = current.replace(e.search, e.replace);
-        if (next === current) {
-          console.warn(`No changes made to ${e.path} - search string not found`);
-          continue;
-        }
-        treeEntries.push({ path: e.path, mode: "100644", type: "blob", content: next });
-        processedPaths.add(e.path);
-      } catch {
-        console.warn(`Skipping replace; file not found: ${e.path}`);
-        continue;
-      }
+  for (const f of files.filter(isChanged)) {
+    const mode = (f.after ? f.mode : f.beforeMode || "100644") as "100644" | "100755" | "120000";
+    if (!f.after) {
+      treeEntries.push({ path: f.path, mode, type: "blob", sha: null });
+    } else if (isUtf8Text(f.after)) {
+      treeEntries.push({ path: f.path, mode, type: "blob", content: f.after.toString("utf8") });
+    } else {
+      const blob = await octokit.rest.git.createBlob({
+        owner,
+        repo,
+        content: f.after.toString("base64"),
+        encoding: "base64",
+      });
+      treeEntries.push({ path: f.path, mode, type: "blob", sha: blob.data.sha });
     }
   }
 
   if (treeEntries.length === 0) {
-    throw Object.assign(new Error(`no_change: ${Array.from(processedPaths).join(", ")}`), {
-      code: "no_change",
-    });
+    throw httpError(400, "no_change", { paths: files.map((f) => f.path) });
   }
 
   const newTree = await octokit.rest.git.createTree({
@@ -240,15 +293,73 @@ async function commitBatch(
     tree: newTree.data.sha,
     parents: [parentSha],
   });
+  return { sha: commit.data.sha, noops };
+}
 
-  await octokit.rest.git.updateRef({
-    owner,
-    repo,
-    ref: `heads/${branch}`,
-    sha: commit.data.sha,
-    force: true,
-  });
-  return commit.data.sha;
+const MAX_COMMIT_ATTEMPTS = 3;
+
+/**
+ * Commits the batch on top of parentSha and fast-forwards the branch (never forced).
+ * If another writer moved the branch meanwhile, the batch is rebuilt on the new head
+ * (replace edits re-run against its content) and retried; edits that no longer apply
+ * there, or a branch that keeps moving, end in 409 conflict.
+ */
+async function commitBatch(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  branch: string,
+  parentSha: string,
+  edits: EditT[],
+  inspect: BatchInspector
+): Promise<string> {
+  let parent = parentSha;
+  let firstNoops: number[] = [];
+  for (let attempt = 1; ; attempt++) {
+    let built: { sha: string; noops: number[] };
+    try {
+      built = await buildCommit(octokit, owner, repo, parent, edits, inspect);
+    } catch (err) {
+      if (attempt === 1 || !isHttpError(err)) throw err;
+      throw httpError(409, "conflict", { reason: err.code, branch, head: parent, attempt, ...err.details });
+    }
+
+    if (attempt === 1) {
+      firstNoops = built.noops;
+    } else {
+      const lost = built.noops.filter((i) => !firstNoops.includes(i));
+      if (lost.length > 0) {
+        throw httpError(409, "conflict", {
+          reason: "edits_no_longer_apply",
+          branch,
+          head: parent,
+          attempt,
+          edits: lost.map((i) => ({ index: i, paths: editPaths(edits[i]) })),
+        });
+      }
+    }
+
+    try {
+      await octokit.rest.git.updateRef({
+        owner,
+        repo,
+        ref: `heads/${branch}`,
+        sha: built.sha,
+        force: false,
+      });
+      return built.sha;
+    } catch (err: any) {
+      // 422 = not a fast-forward: someone else pushed to the branch
+      if (err?.status !== 422) throw err;
+      const moved = await octokit.rest.git.getRef({ owner, repo, ref: `heads/${branch}` });
+      const head = (moved.data as unknown as GitRef).object.sha;
+      if (attempt >= MAX_COMMIT_ATTEMPTS) {
+        throw httpError(409, "conflict", { reason: "ref_moved", branch, head, attempts: attempt });
+      }
+      console.warn(`branch ${branch} moved ${parent} -> ${head}; rebuilding batch (attempt ${attempt + 1})`);
+      parent = head;
+    }
+  }
 }
 
 /* -------------------------------------------------------------------------- */
@@ -271,32 +382,71 @@ app.get("/status", (_req, res) => {
   });
 });
 
-// PLAN — pure / always answers
+// Body of /plan; also used by `/butler plan` comments
+async function performPlan(
+  caller: Caller,
+  input: { goal: string; owner: string; repo: string; baseBranch: string; paths: string[] }
+) {
+  const { goal, owner, repo: name, baseBranch } = input;
+  assertRepoScope(caller, `${owner}/${name}`);
+  const octokit = await makeOctokit(owner, name);
+  const policy = await loadPolicy(octokit, owner, name);
+  const head = await firstExistingRef(octokit, owner, name, [baseBranch]);
+  const reader = await readerAt(octokit, owner, name, head.sha);
+
+  const planner = getPlanner();
+  const out = await planner.plan({
+    goal,
+    owner,
+    repo: name,
+    baseBranch,
+    paths: input.paths,
+    readFile: async (p) => {
+      const f = await reader.read(p);
+      return f ? f.content.toString("utf8") : null;
+    },
+  });
+
+  const issues = validatePlan(policy, `${owner}/${name}`, out);
+  if (issues.length > 0) throw httpError(422, "plan_rejected", { planner: planner.name, details: issues });
+
+  return savePlan({
+    title: out.title || `Butler: ${goal.slice(0, 80)}`,
+    summary: out.summary || `Proposed changes for: ${goal}`,
+    repo: { owner, name },
+    baseBranch,
+    baseSha: head.sha,
+    branch: `butler/${Date.now()}`,
+    labels: ["butler"],
+    runChecks: true,
+    planner: planner.name,
+    edits: out.edits,
+    steps: out.steps,
+  });
+}
+
+// PLAN — reads the target repo and returns concrete, pre-validated edits + steps
 app.post(
   "/plan",
   requireButlerToken,
   asyncHandler(async (req, res) => {
-    const { goal, repo, baseBranch = "main" } = req.body || {};
+    const { goal, repo, baseBranch = "main", paths = [] } = req.body || {};
     if (!goal || !repo?.owner || !repo?.name) {
       return res
         .status(400)
         .json({ ok: false, error: "bad_request", details: "goal, repo.owner, repo.name" });
     }
 
-    const plan = {
-      title: `Butler: ${String(goal).slice(0, 80)}`,
-      summary: `Proposed changes for: ${goal}`,
-      repo: { owner: repo.owner, name: repo.name },
+    const stored = await performPlan(callerOf(res), {
+      goal: String(goal),
+      owner: repo.owner,
+      repo: repo.name,
       baseBranch,
-      branch: `butler/${Date.now()}`,
-      labels: ["butler"],
-      runChecks: true,
-      edits: [] as any[],
-    };
-
+      paths: Array.isArray(paths) ? paths.map(String) : [],
+    });
     res.json({
       ok: true,
-      plan,
+      plan: { id: stored.id, hash: stored.hash, ...stored.plan },
       hints: {
         allowlistEnforcedAtApply: true,
         workflowEditsRequireHeader: "X-Butler-Approve-Workflows",
@@ -305,43 +455,230 @@ app.post(
   })
 );
 
-// APPLY — real work + PR
-app.post(
-  "/apply",
-  requireButlerToken,
-  asyncHandler(async (req, res) => {
-    const {
-      owner = ENV.REPO_OWNER,
-      repo = ENV.REPO_NAME,
-      branch,
-      baseBranch = "main",
-      prTitle,
-      prBody,
-      edits,
-      branchStrategy, // 'reuse' | undefined
-      labels,
-      reviewers,
-    } = req.body || {};
-
-    if (!owner || !repo) return res.status(400).json({ error: "owner_repo_required" });
-    if (!branch || typeof branch !== "string")
-      return res
-        .status(400)
-        .json({ error: "invalid", details: [{ path: ["branch"], message: "Required" }] });
-    if (!prTitle || typeof prTitle !== "string")
-      return res
-        .status(400)
-        .json({ error: "invalid", details: [{ path: ["prTitle"], message: "Required" }] });
-    if (!Array.isArray(edits) || edits.length === 0)
-      return res
-        .status(400)
-        .json({ error: "invalid", details: [{ path: ["edits"], message: "Required" }] });
+/**
+ * Rebuilds `branch` as a single commit of `edits` on the current head of `baseBranch`
+ * (branchStrategy "reset", used by `/butler rebase`). This force-moves the branch, so it
+ * only runs on the branch of an open Butler PR whose head is still Butler's own commit.
+ */
+async function resetBranch(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  branch: string,
+  baseBranch: string,
+  edits: EditT[],
+  inspect: BatchInspector
+): Promise<string> {
+  const current = await firstExistingRef(octokit, owner, repo, [branch]);
+  const pr = listPrs(`${owner}/${repo}`).find((p) => p.branch === branch && p.state === "open");
+  if (!pr) throw httpError(409, "not_butler_branch", { branch });
+  if (pr.headSha !== current.sha) {
+    throw httpError(409, "branch_diverged", { branch, expected: pr.headSha, actual: current.sha });
+  }
+  const base = await firstExistingRef(octokit, owner, repo, [baseBranch]);
+  const built = await buildCommit(octokit, owner, repo, base.sha, edits, inspect);
+  await octokit.rest.git.updateRef({ owner, repo, ref: `heads/${branch}`, sha: built.sha, force: true });
+  return built.sha;
+}
 
-    if (!validatePathsOrDie(req, res, edits)) return;
+// Sha of the first of `branches` that exists
+async function firstExistingRef(octokit: Octokit, owner: string, repo: string, branches: string[]) {
+  for (const b of branches) {
+    try {
+      const ref = await octokit.rest.git.getRef({ owner, repo, ref: `heads/${b}` });
+      return { branch: b, sha: (ref.data as unknown as GitRef).object.sha };
+    } catch (err: any) {
+      if (err?.status !== 404) throw err;
+    }
+  }
+  throw httpError(404, "branch_not_found", { branch: branches[branches.length - 1] });
+}
 
-    const octokit = makeOctokit();
+// Reads files as of a commit
+async function readerAt(octokit: Octokit, owner: string, repo: string, commitSha: string) {
+  const commit = await octokit.rest.git.getCommit({ owner, repo, commit_sha: commitSha });
+  return treeReader(octokit, owner, repo, (commit.data as unknown as GitCommit).tree.sha);
+}
+
+// What commitBatch would produce on top of the first existing branch, without writing anything
+async function previewBatch(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  branches: string[],
+  edits: EditT[],
+  inspect: BatchInspector
+) {
+  const head = await firstExistingRef(octokit, owner, repo, branches);
+  const reader = await readerAt(octokit, owner, repo, head.sha);
+  const { files, noops } = await computeChanges(edits, reader.read);
+  inspect(files);
+  return {
+    ok: true,
+    dryRun: true,
+    base: head,
+    files: previewChanges(files),
+    noopEdits: noops,
+  };
+}
+
+// Response for a request parked until its approvals are in
+function pendingApproval(rec: ApprovalRecord) {
+  return {
+    ok: true,
+    status: "pending_approval",
+    approvalId: rec.id,
+    expiresAt: rec.expiresAt,
+    requires: rec.requirements,
+  };
+}
+
+// { planId } bodies: target, base and edits come from the stored plan; the caller may
+// still choose branch, PR text, labels/reviewers, branchStrategy, dryRun and rebase.
+function expandPlan(body: any): { body: any; plan: StoredPlan | null } {
+  if (!body?.planId) return { body, plan: null };
+  if (body.edits !== undefined) {
+    throw httpError(400, "invalid", {
+      details: [{ path: ["edits"], message: "edits come from the plan when planId is set" }],
+    });
+  }
+  const stored = getPlan(String(body.planId));
+  const { plan } = stored;
+  return {
+    plan: stored,
+    body: {
+      owner: plan.repo.owner,
+      repo: plan.repo.name,
+      baseBranch: plan.baseBranch,
+      branch: body.branch ?? plan.branch,
+      prTitle: body.prTitle ?? plan.title,
+      prBody: body.prBody ?? `${plan.summary}\n\nButler plan ${stored.id} (sha256 ${stored.hash})`,
+      labels: body.labels ?? plan.labels,
+      reviewers: body.reviewers,
+      branchStrategy: body.branchStrategy,
+      workflowApprovalKey: body.workflowApprovalKey,
+      dryRun: body.dryRun,
+      planId: stored.id,
+      rebase: body.rebase,
+      runChecks: body.runChecks ?? plan.runChecks,
+      merge: body.merge,
+      edits: plan.edits,
+    },
+  };
+}
+
+// Body of /apply; also replayed by the approvals executor
+async function performApply(
+  rawBody: any,
+  workflowKey: string,
+  caller: Caller,
+  approval?: ApprovalRecord,
+  note: AuditNote = {}
+) {
+  const { body, plan } = expandPlan(rawBody);
+  const parsed = ApplyReq.safeParse(body || {});
+  if (!parsed.success) throw httpError(400, "invalid", { details: parsed.error.issues });
+  const {
+    owner = ENV.REPO_OWNER,
+    repo = ENV.REPO_NAME,
+    branch,
+    baseBranch,
+    prTitle,
+    prBody,
+    edits,
+    branchStrategy,
+    labels,
+    reviewers,
+    dryRun,
+    rebase,
+    runChecks,
+    merge,
+  } = parsed.data;
+
+  if (!owner || !repo) throw httpError(400, "owner_repo_required");
+
+  Object.assign(note, {
+    repo: `${owner}/${repo}`,
+    branch,
+    actions: merge ? ["github.write_file", "github.open_pr", "github.auto_merge"] : ["github.write_file", "github.open_pr"],
+    edits: summarizeEdits(edits),
+    planId: plan?.id,
+  });
+  validatePaths(edits);
+  assertLimits(checkBatch(edits));
+  const repoKey = `${owner}/${repo}`;
+  assertScope(caller, repoKey, "github", "write_file", "staging");
+  assertScope(caller, repoKey, "github", "open_pr", "staging");
+
+  const octokit = await makeOctokit(owner, repo);
+
+  // policy: every edit is a github.write_file and must also match paths_allow
+  const policy = await loadPolicy(octokit, owner, repo);
+  enforce(policy, repoKey, "github", "write_file", "staging", { consume: false });
+  for (const p of edits.flatMap(editPaths)) {
+    enforcePath(policy, repoKey, "github", "write_file", "staging", p);
+  }
+  enforce(policy, repoKey, "github", "open_pr", "staging", { consume: false });
+  if (merge) {
+    const d = autoMergeDecision(policy, repoKey, edits.flatMap(editPaths), merge.method);
+    if (!d.allowed) {
+      throw httpError(403, "policy_denied", {
+        tool: "github",
+        action: "auto_merge",
+        env: "staging",
+        path: d.path,
+        reason: d.reason,
+        rule: d.rule,
+      });
+    }
+  }
+
+  // a stored plan was reviewed against baseSha; refuse to apply it elsewhere unless asked to
+  if (plan && !rebase) {
+    const current = await firstExistingRef(octokit, owner, repo, [baseBranch]);
+    if (current.sha !== plan.plan.baseSha) {
+      throw httpError(409, "base_moved", {
+        planId: plan.id,
+        baseBranch,
+        plannedSha: plan.plan.baseSha,
+        currentSha: current.sha,
+        hint: "pass rebase: true to apply the plan's edits on the current base",
+      });
+    }
+  }
 
-    // branch handling
+  // SQL files the batch writes are linted for the PR body (and the preview)
+  let sqlRisk: Array<{ path: string; report: SqlReport }> = [];
+  const inspect: BatchInspector = (files) => {
+    assertLimits(checkResults(files, edits));
+    assertNoSecrets(scanChanges(files), secretsAllowFor(policy, repoKey));
+    sqlRisk = files
+      .filter((f) => /\.sql$/i.test(f.path) && f.after && isChanged(f))
+      .map((f) => ({ path: f.path, report: lintSql(f.after!.toString("utf8")) }));
+  };
+
+  if (dryRun) {
+    const from = branchStrategy === "reuse" ? [branch, baseBranch] : [baseBranch];
+    const preview = await previewBatch(octokit, owner, repo, from, edits, inspect);
+    return sqlRisk.length > 0 ? { ...preview, sqlRisk } : preview;
+  }
+
+  const required = applyApprovalsNeeded(policy, repoKey, edits.flatMap(editPaths), !!merge, workflowKey, approval);
+  if (required.length > 0) {
+    // the workflow key is a credential; the replay does not need it (see the apply executor)
+    const rec = createApproval("apply", repoKey, required, { ...rawBody, workflowApprovalKey: undefined }, caller);
+    note.approvalId = rec.id;
+    return pendingApproval(rec);
+  }
+
+  enforce(policy, repoKey, "github", "write_file");
+  enforce(policy, repoKey, "github", "open_pr");
+
+  // branch handling + commit the batch
+  let newSha: string;
+  if (branchStrategy === "reset") {
+    newSha = await resetBranch(octokit, owner, repo, branch, baseBranch, edits, inspect);
+  } else {
     let headSha: string;
     if (branchStrategy === "reuse") {
       headSha = await ensureBranchAndGetHeadSha(octokit, owner, repo, branch, baseBranch);
@@ -352,61 +689,454 @@ app.post(
         await octokit.rest.git.createRef({ owner, repo, ref: `refs/heads/${branch}`, sha: baseSha });
         headSha = baseSha;
       } catch {
-        return res.status(422).json({ error: "branch_exists", branch });
+        throw httpError(422, "branch_exists", { branch });
       }
     }
+    newSha = await commitBatch(octokit, owner, repo, branch, headSha!, edits, inspect);
+  }
+  note.commit = newSha;
 
-    // commit the batch
-    const newSha = await commitBatch(octokit, owner, repo, branch, headSha!, edits);
-
-    // open/update PR
-    let prUrl: string | null = null;
-    const prs = await octokit.rest.pulls.list({
+  // open/update PR
+  const fullBody = sqlRisk.length > 0 ? `${prBody}\n\n${renderSqlReports(sqlRisk)}` : prBody;
+  let prUrl: string | null = null;
+  const prs = await octokit.rest.pulls.list({
+    owner,
+    repo,
+    head: `${owner}:${branch}`,
+    base: baseBranch,
+    state: "open",
+  });
+  let prNumber: number;
+  if (prs.data.length > 0) {
+    prUrl = prs.data[0].html_url;
+    prNumber = prs.data[0].number;
+    await octokit.rest.pulls.update({
+      owner,
+      repo,
+      pull_number: prs.data[0].number,
+      title: prTitle,
+      body: fullBody,
+    });
+  } else {
+    const pr = await octokit.rest.pulls.create({
       owner,
       repo,
-      head: `${owner}:${branch}`,
+      title: prTitle,
+      head: branch,
       base: baseBranch,
-      state: "open",
+      body: fullBody,
     });
-    if (prs.data.length > 0) {
-      prUrl = prs.data[0].html_url;
-      await octokit.rest.pulls.update({
+    prUrl = pr.data.html_url;
+    prNumber = pr.data.number;
+
+    if (labels && labels.length > 0) {
+      await octokit.rest.issues.addLabels({
         owner,
         repo,
-        pull_number: prs.data[0].number,
-        title: prTitle,
-        body: prBody ?? undefined,
+        issue_number: pr.data.number,
+        labels,
       });
-    } else {
-      const pr = await octokit.rest.pulls.create({
+    }
+    if (reviewers && reviewers.length > 0) {
+      await octokit.rest.pulls.requestReviewers({
         owner,
         repo,
-        title: prTitle,
-        head: branch,
-        base: baseBranch,
-        body: prBody ?? undefined,
+        pull_number: pr.data.number,
+        reviewers,
       });
-      prUrl = pr.data.html_url;
-
-      if (Array.isArray(labels) && labels.length > 0) {
-        await octokit.rest.issues.addLabels({
-          owner,
-          repo,
-          issue_number: pr.data.number,
-          labels,
-        });
-      }
-      if (Array.isArray(reviewers) && reviewers.length > 0) {
-        await octokit.rest.pulls.requestReviewers({
-          owner,
-          repo,
-          pull_number: pr.data.number,
-          reviewers,
-        });
-      }
     }
+  }
+
+  // with branchStrategy "reuse" the PR may carry earlier commits, so auto-merge must hold for every file in it
+  let mergeDenied: string | undefined;
+  if (merge) {
+    const files = await octokit.paginate(octokit.rest.pulls.listFiles, { owner, repo, pull_number: prNumber, per_page: 100 });
+    const paths = files.flatMap((f: { filename: string; previous_filename?: string }) =>
+      f.previous_filename ? [f.filename, f.previous_filename] : [f.filename]
+    );
+    const d = autoMergeDecision(policy, repoKey, paths, merge.method);
+    if (!d.allowed) mergeDenied = `policy_denied: ${d.reason} (${d.path})`;
+  }
+
+  note.prUrl = prUrl;
+  trackPr({
+    repo: repoKey,
+    number: prNumber,
+    url: prUrl!,
+    title: prTitle,
+    branch,
+    baseBranch,
+    headSha: newSha,
+    createdBy: caller.name,
+    planId: plan?.id,
+  });
+  const applied = recordApply({
+    repo: repoKey,
+    branch,
+    baseBranch,
+    prNumber,
+    prUrl: prUrl!,
+    commit: newSha,
+    planId: plan?.id,
+    createdBy: caller.name,
+    runChecks: runChecks === true ? { label: false, comment: false } : runChecks || undefined,
+    merge: merge && (mergeDenied
+      ? { method: merge.method, when: merge.when, via: "butler", state: "failed", reason: mergeDenied }
+      : { method: merge.method, when: merge.when, via: "butler", state: "waiting" }),
+  });
+  const mergeState = merge && !mergeDenied ? await startAutoMerge(applied.id) : applied.merge;
+  return {
+    ok: true,
+    applyId: applied.id,
+    branch,
+    prUrl,
+    commit: newSha,
+    planId: plan?.id,
+    checks: applied.runChecks ? "pending" : undefined,
+    merge: mergeState,
+  };
+}
+
+// Body of /run; also replayed by the approvals executor
+async function performRun(
+  body: any,
+  workflowKey: string,
+  caller: Caller,
+  approval?: ApprovalRecord,
+  note: AuditNote = {}
+) {
+  // the request guard starts counting when the request arrives, so the run's budget does too
+  const deadline = Date.now() + RUN_BUDGET_MS;
+  const parsed = RunReq.safeParse(body || {});
+  if (!parsed.success) throw httpError(400, "invalid", { details: parsed.error.issues });
+  const run = parsed.data;
+  Object.assign(note, {
+    repo: run.repo,
+    branch: run.branch,
+    env: run.env,
+    actions: run.steps.map((s) => s.tool),
+  });
+
+  const target = splitRepo(run.repo);
+  if (!target) {
+    throw httpError(400, "invalid", { details: [{ path: ["repo"], message: "Expected owner/name" }] });
+  }
+  const unknown = unknownSteps(run);
+  if (unknown.length > 0) throw httpError(400, "invalid", { details: unknown });
+
+  const octokit = await makeOctokit(target.owner, target.repo);
+  const policy = await loadPolicy(octokit, target.owner, target.repo);
+  authorizeSteps(policy, caller, run);
+  const prepared = await prepareSteps(run);
+  if (approval) assertSqlUnchanged(approval, prepared);
+
+  const required = run.dryRun
+    ? []
+    : workflowGate(policy, run.repo, writtenPaths(run), workflowKey, approval).concat(
+        approvalsNeeded(policy, run, approval, prepared)
+      );
+  if (required.length > 0) {
+    const { payload, secrets } = withholdSecrets(body);
+    const rec = createApproval("run", run.repo, required, payload, caller, { sqlChecksums: sqlChecksums(prepared), secrets });
+    note.approvalId = rec.id;
+    const risk = Array.from(prepared, ([step, p]) => ({ step, report: p.risk }));
+    return { ...pendingApproval(rec), risk };
+  }
+
+  const results = await runSteps(policy, caller, run, prepared, deadline);
+  note.steps = results.map((r) => ({ tool: r.tool, status: r.status }));
+  return {
+    ok: results.every((r) => r.status !== "error"),
+    dryRun: run.dryRun,
+    results,
+  };
+}
+
+// A held request runs inside the approver's call; give it its own audit entry, attributed to the requester
+async function audited<T>(approval: ApprovalRecord, exec: (note: AuditNote) => Promise<T>): Promise<T> {
+  const note: AuditNote = { approvalId: approval.id, approvedBy: approval.approvals.map((a) => a.by) };
+  const entry = { caller: approval.requestedBy, endpoint: `EXECUTE approval/${approval.kind}` };
+  try {
+    const out = await exec(note);
+    appendAudit({ ...note, ...entry, status: 200 });
+    return out;
+  } catch (err) {
+    appendAudit({ ...note, ...entry, status: isHttpError(err) ? err.status : 500, error: auditErrorOf(err) });
+    throw err;
+  }
+}
+
+// The gates the workflow key opened were cleared when the request was held, so the key itself is not kept
+registerExecutor("apply", (body, approval) =>
+  audited(approval, (note) => performApply(body, "", approval.requestedBy, approval, note))
+);
+registerExecutor("run", (body, approval, secrets) =>
+  audited(approval, (note) => performRun(restoreSecrets(body, secrets), "", approval.requestedBy, approval, note))
+);
+
+// CHATOPS — `/butler plan|apply|approve|rebase` comments, answered with a reply comment
+function describePlan(stored: StoredPlan) {
+  const { plan } = stored;
+  const steps = plan.steps || [];
+  const lines = [
+    `**${plan.title}**`,
+    "",
+    plan.summary,
+    "",
+    ...plan.edits.map((e) => `- \`${e.op}\` ${editPaths(e).join(" → ")}`),
+    ...steps.map((s) => `- step \`${s.tool}\``),
+  ];
+  return lines.join("\n");
+}
+
+installChatOps({
+  plan: async (ctx, goal) => {
+    if (!goal) throw httpError(400, "invalid", { details: [{ path: ["goal"], message: "usage: /butler plan <goal>" }] });
+    enforce(await loadPolicy(ctx.octokit, ctx.owner, ctx.repo), ctx.repoKey, "chatops", "plan");
+    const stored = await performPlan(ctx.caller, {
+      goal,
+      owner: ctx.owner,
+      repo: ctx.repo,
+      baseBranch: ctx.pr?.baseBranch ?? ctx.defaultBranch,
+      paths: [],
+    });
+    ctx.thread.planId = stored.id;
+    ctx.note.planId = stored.id;
+    return `planned \`${stored.id}\` (base \`${stored.plan.baseSha.slice(0, 7)}\`):\n\n${describePlan(stored)}\n\nComment \`/butler apply\` to open a PR.`;
+  },
+  apply: async (ctx, args) => {
+    const planId = args || ctx.thread.planId;
+    if (!planId) throw httpError(404, "plan_not_found", { hint: "run /butler plan <goal> first" });
+    const stored = getPlan(planId);
+    enforce(await loadPolicy(ctx.octokit, ctx.owner, ctx.repo), ctx.repoKey, "chatops", "apply");
+    const out = await performApply({ planId }, "", ctx.caller, undefined, ctx.note);
+    if ("approvalId" in out) {
+      ctx.thread.approvalId = out.approvalId;
+      const who = out.requires.map((r) => `${r.approvers.join(", ")} (${r.quorum} needed)`).join("; ");
+      return `plan \`${planId}\` is waiting for approval \`${out.approvalId}\` from ${who}. Approvers comment \`/butler approve\`.`;
+    }
+    const { prUrl, commit } = out as { prUrl: string; commit: string }; // never a dry run here
+    return `applied plan \`${planId}\`: ${prUrl} (commit \`${commit.slice(0, 7)}\`)`;
+  },
+  approve: async (ctx, args) => {
+    const id = args || ctx.thread.approvalId;
+    if (!id) throw httpError(404, "not_found", { hint: "no pending approval in this thread; pass its id" });
+    const rec = getApproval(id);
+    if (rec) assertRepoScope(ctx.caller, rec.repo);
+    enforce(await loadPolicy(ctx.octokit, ctx.owner, ctx.repo), ctx.repoKey, "chatops", "approve");
+    ctx.note.approvalId = id;
+    const done = await approve(id, ctx.caller.name, `via comment on #${ctx.number}`);
+    if (done.status === "pending") return `approval recorded on \`${id}\`; still waiting for more approvers.`;
+    if (done.status === "failed") return `:x: approval \`${id}\` ran and failed: ${done.error}`;
+    const prUrl = done.result?.prUrl;
+    return `approval \`${id}\` complete; the held request ran${prUrl ? `: ${prUrl}` : "."}`;
+  },
+  rebase: async (ctx) => {
+    if (!ctx.pr) throw httpError(404, "pr_not_found", { hint: "/butler rebase only works on PRs Butler opened" });
+    if (!ctx.pr.planId) throw httpError(422, "rebase_unsupported", { reason: "PR was not applied from a stored plan" });
+    enforce(await loadPolicy(ctx.octokit, ctx.owner, ctx.repo), ctx.repoKey, "chatops", "rebase");
+    const out = await performApply(
+      { planId: ctx.pr.planId, branch: ctx.pr.branch, branchStrategy: "reset", rebase: true },
+      "",
+      ctx.caller,
+      undefined,
+      ctx.note
+    );
+    if ("approvalId" in out) {
+      ctx.thread.approvalId = out.approvalId;
+      return `rebase is waiting for approval \`${out.approvalId}\`.`;
+    }
+    const { commit } = out as { commit: string };
+    return `rebased \`${ctx.pr.branch}\` onto the current \`${ctx.pr.baseBranch}\` (commit \`${commit.slice(0, 7)}\`).`;
+  },
+});
+
+// PLANS — stored /plan output
+app.get(
+  "/plans/:id",
+  requireButlerToken,
+  asyncHandler(async (req, res) => {
+    const stored = getPlan(req.params.id);
+    assertRepoScope(callerOf(res), `${stored.plan.repo.owner}/${stored.plan.repo.name}`);
+    res.json({ ok: true, ...stored });
+  })
+);
+
+// APPLY — real work + PR
+app.post(
+  "/apply",
+  requireButlerToken,
+  asyncHandler(async (req, res) => {
+    const workflowKey = String(
+      req.header("X-Butler-Approve-Workflows") || (req.body?.workflowApprovalKey ?? "")
+    );
+    const out = await performApply(req.body, workflowKey, callerOf(res), undefined, auditNote(res));
+    res.status("approvalId" in out ? 202 : 200).json(out);
+  })
+);
 
-    res.json({ ok: true, branch, prUrl, commit: newSha });
+// APPLY CHECKS — CI state of the commit an /apply produced (re-read from GitHub until it settles)
+app.get(
+  "/apply/:id/checks",
+  requireButlerToken,
+  asyncHandler(async (req, res) => {
+    const rec = getApply(req.params.id);
+    if (!rec) throw httpError(404, "apply_not_found", { id: req.params.id });
+    assertRepoScope(callerOf(res), rec.repo);
+    const fresh = (await refreshChecks(rec.id))!;
+    res.json({
+      ok: true,
+      applyId: fresh.id,
+      prUrl: fresh.prUrl,
+      commit: fresh.commit,
+      checks: fresh.checks,
+      reportedAt: fresh.reportedAt,
+      merge: fresh.merge,
+    });
+  })
+);
+
+// PREVIEW DEPLOYMENT — state of a deploy.create_preview, re-read from the provider until it settles
+app.get(
+  "/previews/:id",
+  requireButlerToken,
+  asyncHandler(async (req, res) => {
+    const rec = getPreview(req.params.id);
+    if (!rec) throw httpError(404, "preview_not_found", { id: req.params.id });
+    assertRepoScope(callerOf(res), rec.repo);
+    const fresh = (await refreshPreview(rec.id))!;
+    res.json({ ok: true, preview: fresh });
+  })
+);
+
+// APPLY PREVIEW — same as /apply with dryRun: true; never creates refs, trees, commits or PRs
+app.post(
+  "/apply/preview",
+  requireButlerToken,
+  asyncHandler(async (req, res) => {
+    res.json(await performApply({ ...req.body, dryRun: true }, "", callerOf(res), undefined, auditNote(res)));
+  })
+);
+
+// RUN — execute tool steps through the adapters, in order
+app.post(
+  "/run",
+  requireButlerToken,
+  asyncHandler(async (req, res) => {
+    const workflowKey = String(req.header("X-Butler-Approve-Workflows") || "");
+    const out = await performRun(req.body, workflowKey, callerOf(res), undefined, auditNote(res));
+    res.status("approvalId" in out ? 202 : 200).json(out);
+  })
+);
+
+// Approver identity is the authenticated caller's key name; the request body cannot name one.
+// The shared legacy BUTLER_TOKEN identifies nobody, so it cannot sign off or reject.
+function approverName(req: Request, res: Response): string {
+  const caller = callerOf(res);
+  if (caller.legacy) throw httpError(403, "approver_key_required", { hint: "approve with a named key from BUTLER_KEYS_FILE" });
+  const rec = getApproval(req.params.id);
+  if (rec) assertRepoScope(caller, rec.repo);
+  return caller.name;
+}
+
+// APPROVALS — requests parked by policy approvals
+app.get(
+  "/approvals",
+  requireButlerToken,
+  asyncHandler(async (req, res) => {
+    const status = typeof req.query.status === "string" ? req.query.status : undefined;
+    const repo = typeof req.query.repo === "string" ? req.query.repo : undefined;
+    const caller = callerOf(res);
+    const approvals = listApprovals({ status, repo }).filter((a) => matchesGlob(a.repo, caller.repos));
+    res.json({ ok: true, approvals });
+  })
+);
+
+app.get(
+  "/approvals/:id",
+  requireButlerToken,
+  asyncHandler(async (req, res) => {
+    const rec = getApproval(req.params.id);
+    if (!rec) return res.status(404).json({ ok: false, error: "not_found" });
+    assertRepoScope(callerOf(res), rec.repo);
+    res.json({ ok: true, approval: rec });
+  })
+);
+
+app.post(
+  "/approvals/:id/approve",
+  requireButlerToken,
+  asyncHandler(async (req, res) => {
+    const { comment } = req.body || {};
+    Object.assign(auditNote(res), { approvalId: req.params.id, repo: getApproval(req.params.id)?.repo });
+    const rec = await approve(req.params.id, approverName(req, res), comment);
+    res.json({ ok: rec.status !== "failed", approval: rec });
+  })
+);
+
+app.post(
+  "/approvals/:id/reject",
+  requireButlerToken,
+  asyncHandler(async (req, res) => {
+    const { reason } = req.body || {};
+    Object.assign(auditNote(res), { approvalId: req.params.id, repo: getApproval(req.params.id)?.repo });
+    res.json({ ok: true, approval: reject(req.params.id, approverName(req, res), reason) });
+  })
+);
+
+// WEBHOOKS — GitHub deliveries (HMAC-signed, no Butler key); keeps Butler-created PRs' state current
+app.post(
+  "/webhooks/github",
+  asyncHandler(async (req, res) => {
+    verifySignature((req as any).rawBody, req.header("X-Hub-Signature-256"));
+    const event = String(req.header("X-GitHub-Event") || "");
+    const delivery = String(req.header("X-GitHub-Delivery") || "");
+    const out = await handleWebhook(event, delivery, req.body);
+    res.status(202).json({ ok: true, event, ...out });
+  })
+);
+
+// PRS — stored state of a PR opened by /apply
+app.get(
+  "/prs/:owner/:repo/:number",
+  requireButlerToken,
+  asyncHandler(async (req, res) => {
+    const repoKey = `${req.params.owner}/${req.params.repo}`;
+    assertRepoScope(callerOf(res), repoKey);
+    const pr = getPr(repoKey, Number(req.params.number));
+    if (!pr) throw httpError(404, "pr_not_found", { repo: repoKey, number: Number(req.params.number) });
+    res.json({ ok: true, pr });
+  })
+);
+
+// AUDIT — append-only, hash-chained log of every state-changing request; needs the audit.read tool scope
+app.get(
+  "/audit",
+  requireButlerToken,
+  asyncHandler(async (req, res) => {
+    const caller = callerOf(res);
+    const q = (k: string) => (typeof req.query[k] === "string" ? (req.query[k] as string) : undefined);
+    if (!matchesGlob("audit.read", caller.tools)) {
+      throw httpError(403, "scope_denied", { caller: caller.name, tool: "audit", action: "read" });
+    }
+    if (q("repo")) assertRepoScope(caller, q("repo")!);
+    for (const k of ["since", "until"]) {
+      const v = q(k);
+      if (v !== undefined && Number.isNaN(Date.parse(v))) {
+        throw httpError(400, "invalid", { details: [{ path: [k], message: "Expected an ISO 8601 timestamp" }] });
+      }
+    }
+    const limit = Math.min(Math.max(Number(q("limit") ?? 100) || 100, 1), 1000);
+    const entries = queryAudit({
+      repo: q("repo"),
+      caller: q("caller"),
+      action: q("action"),
+      since: q("since"),
+      until: q("until"),
+      limit,
+      repos: caller.repos,
+    });
+    res.json({ ok: true, chain: q("verify") === "true" ? verifyAudit() : undefined, entries });
   })
 );
 
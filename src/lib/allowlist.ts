@@ -42,6 +42,12 @@ export function isWorkflowPath(p: string): boolean {
   return n.startsWith('.github/workflows/');
 }
 
+/** Whether `p` matches any of `globs` (same glob dialect as SAFE_WRITE_GLOBS) */
+export function matchesGlob(p: string, globs: string[]): boolean {
+  const n = norm(p);
+  return globs.some((g) => globToRegExp(g).test(n));
+}
+
 export function isPathAllowed(p: string): boolean {
   const n = norm(p);
   return SAFE_WRITE_GLOBS.some((g) => globToRegExp(g).test(n));
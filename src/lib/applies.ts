@@ -0,0 +1,221 @@
+import crypto from 'crypto'
+import { fileStore } from './store'
+import { ENV } from './env'
+import { clientForRepo } from './github'
+import { collectChecks, renderChecks, ChecksReport } from './checks'
+import { onWebhook } from './webhooks'
+
+export type ChecksOptions = { label: boolean, comment: boolean }
+
+/**
+ * Auto-merge of the apply's PR. `via` is GitHub's native auto-merge when the repo
+ * allows it, else Butler merges itself once the PR is mergeable and checks pass.
+ */
+export type MergeState = {
+  method: 'squash' | 'merge' | 'rebase'
+  when: 'checks_pass'
+  via: 'github_auto_merge' | 'butler'
+  state: 'waiting' | 'merged' | 'failed'
+  reason?: string
+  mergedSha?: string
+  mergedAt?: string
+  branchDeleted?: boolean
+}
+
+/** One successful /apply: the PR and commit it produced, and the CI state of that commit */
+export type ApplyRecord = {
+  id: string
+  repo: string
+  branch: string
+  baseBranch: string
+  prNumber: number
+  prUrl: string
+  commit: string
+  planId?: string
+  createdBy: string
+  createdAt: string
+  // set when /apply asked Butler to follow CI (runChecks)
+  runChecks?: ChecksOptions
+  checks?: ChecksReport
+  merge?: MergeState
+  // when the settled result was labeled/commented on the PR
+  reportedAt?: string
+}
+
+export const CHECK_LABELS = { success: 'butler:checks-passed', failure: 'butler:checks-failed' } as const
+
+const store = fileStore<ApplyRecord>('applies')
+const watching = new Set<string>()
+
+export function getApply(id: string) {
+  return store.get(id)
+}
+
+export function recordApply(rec: Omit<ApplyRecord, 'id' | 'createdAt'>) {
+  const full: ApplyRecord = { ...rec, id: `apl_${crypto.randomBytes(8).toString('hex')}`, createdAt: new Date().toISOString() }
+  store.put(full.id, full)
+  if (full.runChecks || full.merge) watchChecks(full.id)
+  return full
+}
+
+const settled = (r?: ChecksReport) => r?.state === 'success' || r?.state === 'failure'
+const done = (rec: ApplyRecord) => settled(rec.checks) && rec.merge?.state !== 'waiting'
+
+// expectedHeadOid pins the merge to Butler's commit: GitHub refuses to merge anything pushed on top
+const ENABLE_AUTO_MERGE = `mutation($id: ID!, $method: PullRequestMergeMethod!, $head: GitObjectID!) {
+  enablePullRequestAutoMerge(input: { pullRequestId: $id, mergeMethod: $method, expectedHeadOid: $head }) { clientMutationId }
+}`
+
+const DISABLE_AUTO_MERGE = `mutation($id: ID!) {
+  disablePullRequestAutoMerge(input: { pullRequestId: $id }) { clientMutationId }
+}`
+
+/**
+ * Turns on GitHub auto-merge for the apply's PR. Repos without auto-merge enabled,
+ * or PRs GitHub considers already mergeable, fall back to Butler merging itself.
+ */
+export async function startAutoMerge(id: string) {
+  const rec = store.get(id)
+  if (!rec?.merge) return rec?.merge
+  const [owner, repo] = rec.repo.split('/')
+  const gh = await clientForRepo(owner, repo)
+  const { data: pr } = await gh.rest.pulls.get({ owner, repo, pull_number: rec.prNumber })
+  try {
+    await gh.graphql(ENABLE_AUTO_MERGE, { id: pr.node_id, method: rec.merge.method.toUpperCase(), head: rec.commit })
+    rec.merge.via = 'github_auto_merge'
+  } catch (err: any) {
+    rec.merge.via = 'butler'
+    rec.merge.reason = `github auto-merge unavailable: ${err?.message || String(err)}`
+  }
+  return store.put(rec.id, rec).merge
+}
+
+async function deleteBranch(rec: ApplyRecord) {
+  const [owner, repo] = rec.repo.split('/')
+  const gh = await clientForRepo(owner, repo)
+  try {
+    await gh.rest.git.deleteRef({ owner, repo, ref: `heads/${rec.branch}` })
+  } catch (err: any) {
+    // already gone (e.g. the repo deletes head branches on merge)
+    if (err?.status !== 422 && err?.status !== 404) throw err
+  }
+  rec.merge!.branchDeleted = true
+}
+
+async function markMerged(rec: ApplyRecord, sha?: string, at?: string) {
+  Object.assign(rec.merge!, { state: 'merged', mergedSha: sha, mergedAt: at || new Date().toISOString() })
+  await deleteBranch(rec)
+}
+
+/** Moves a waiting merge forward: fail on red checks, notice merges GitHub did, or merge when mergeable */
+async function advanceMerge(rec: ApplyRecord) {
+  const m = rec.merge
+  if (!m || m.state !== 'waiting') return
+  if (rec.checks?.state === 'failure') {
+    Object.assign(m, { state: 'failed', reason: 'checks_failed' })
+    return
+  }
+  const [owner, repo] = rec.repo.split('/')
+  const gh = await clientForRepo(owner, repo)
+  const { data: pr } = await gh.rest.pulls.get({ owner, repo, pull_number: rec.prNumber })
+  if (pr.merged) return markMerged(rec, pr.merge_commit_sha || undefined, pr.merged_at || undefined)
+  if (pr.state === 'closed') {
+    Object.assign(m, { state: 'failed', reason: 'pr_closed' })
+    return
+  }
+  if (pr.head.sha !== rec.commit) {
+    Object.assign(m, { state: 'failed', reason: 'head_moved' })
+    // someone else's commits are on the PR now; GitHub must not merge them on Butler's behalf
+    if (m.via === 'github_auto_merge') {
+      await gh.graphql(DISABLE_AUTO_MERGE, { id: pr.node_id }).catch((err: any) => {
+        m.reason = `head_moved; disabling github auto-merge failed: ${err?.message || String(err)}`
+      })
+    }
+    return
+  }
+  // "clean" = required checks green and required reviews given; GitHub's auto-merge waits for the same
+  if (m.via !== 'butler' || pr.mergeable_state !== 'clean' || rec.checks?.state === 'pending') return
+  try {
+    const { data } = await gh.rest.pulls.merge({ owner, repo, pull_number: rec.prNumber, merge_method: m.method, sha: rec.commit })
+    await markMerged(rec, data.sha)
+  } catch (err: any) {
+    Object.assign(m, { state: 'failed', reason: `merge_failed: ${err?.message || String(err)}` })
+  }
+}
+
+/** Labels and/or comments once per apply, after its checks settle */
+async function report(rec: ApplyRecord) {
+  const opts = rec.runChecks
+  if (!opts || rec.reportedAt || !rec.checks || !settled(rec.checks)) return
+  const [owner, repo] = rec.repo.split('/')
+  const gh = await clientForRepo(owner, repo)
+  const state = rec.checks.state as keyof typeof CHECK_LABELS
+  if (opts.label) {
+    const stale = state === 'success' ? CHECK_LABELS.failure : CHECK_LABELS.success
+    await gh.rest.issues.removeLabel({ owner, repo, issue_number: rec.prNumber, name: stale }).catch(() => undefined)
+    await gh.rest.issues.addLabels({ owner, repo, issue_number: rec.prNumber, labels: [CHECK_LABELS[state]] })
+  }
+  if (opts.comment) {
+    await gh.rest.issues.createComment({ owner, repo, issue_number: rec.prNumber, body: renderChecks(rec.checks) })
+  }
+  rec.reportedAt = new Date().toISOString()
+}
+
+/** Re-reads CI for the apply's commit unless it already settled, reports on the PR when it just did, and advances auto-merge */
+export async function refreshChecks(id: string): Promise<ApplyRecord | undefined> {
+  const rec = store.get(id)
+  if (!rec) return undefined
+  if (!settled(rec.checks)) {
+    const [owner, repo] = rec.repo.split('/')
+    rec.checks = await collectChecks(await clientForRepo(owner, repo), owner, repo, rec.commit)
+  }
+  await report(rec)
+  await advanceMerge(rec)
+  return store.put(rec.id, rec)
+}
+
+/**
+ * Polls in the background every CHECKS_POLL_SECONDS until the checks settle or
+ * CHECKS_TIMEOUT_MINUTES pass. Webhook check events refresh sooner. State lives in
+ * the store, so GET /apply/:id/checks picks up where a restarted process left off.
+ */
+export function watchChecks(id: string) {
+  if (watching.has(id)) return
+  watching.add(id)
+  const deadline = Date.now() + ENV.CHECKS_TIMEOUT_MINUTES * 60_000
+  const tick = async () => {
+    try {
+      const rec = await refreshChecks(id)
+      if (!rec || done(rec) || Date.now() > deadline) {
+        watching.delete(id)
+        return
+      }
+    } catch (err) {
+      console.error(`checks poll for ${id} failed:`, err)
+    }
+    setTimeout(tick, ENV.CHECKS_POLL_SECONDS * 1000).unref()
+  }
+  setTimeout(tick, ENV.CHECKS_POLL_SECONDS * 1000).unref()
+}
+
+async function onCheckEvent(p: any, event: string) {
+  const sha = p[event]?.head_sha
+  if (!sha || p[event]?.status !== 'completed') return
+  for (const rec of store.list()) {
+    if (rec.commit === sha && rec.repo === p.repository?.full_name && (rec.runChecks || rec.merge)) await refreshChecks(rec.id)
+  }
+}
+
+// a review can unblock a waiting merge; a merge by GitHub's auto-merge (or a human) finishes it
+async function onPullRequestEvent(p: any) {
+  const number = p.pull_request?.number
+  for (const rec of store.list()) {
+    if (rec.repo !== p.repository?.full_name || rec.prNumber !== number || rec.merge?.state !== 'waiting') continue
+    await refreshChecks(rec.id)
+  }
+}
+
+onWebhook('check_suite', (p, _prs, event) => onCheckEvent(p, event))
+onWebhook('check_run', (p, _prs, event) => onCheckEvent(p, event))
+onWebhook('pull_request', onPullRequestEvent)
+onWebhook('pull_request_review', onPullRequestEvent)
@@ -0,0 +1,73 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import fs from 'fs'
+import path from 'path'
+import { ENV } from './env'
+import { approve, createApproval, outstanding, registerExecutor, reject } from './approvals'
+import type { ApprovalRequirement } from '../policy'
+import type { Caller } from './keys'
+
+const caller = (name: string): Caller => ({ keyId: name, name, repos: ['*/*'], tools: ['*'], envs: ['staging'], legacy: false })
+
+const twoOf: ApprovalRequirement = {
+  tool: 'supabase', action: 'sql_migrate', env: 'prod',
+  approvers: ['alice', 'bob', 'carol'], quorum: 2, expiresInHours: 24, rule: 'repos.default.tools.supabase.approvals[0]'
+}
+
+const executed: string[] = []
+const received: any[] = []
+registerExecutor('run', async (payload, _approval, secrets) => {
+  executed.push(payload.id)
+  received.push(secrets)
+  return { ok: true }
+})
+
+test('the requester cannot approve their own request', async () => {
+  const rec = createApproval('run', 'acme/app', [twoOf], { id: 'self' }, caller('alice'))
+  await assert.rejects(approve(rec.id, 'alice'), { status: 403, code: 'self_approval' })
+})
+
+test('quorum needs distinct approvers and then runs the held request', async () => {
+  const rec = createApproval('run', 'acme/app', [twoOf], { id: 'quorum' }, caller('agent'))
+  const first = await approve(rec.id, 'bob')
+  assert.equal(first.status, 'pending')
+  await assert.rejects(approve(rec.id, 'bob'), { status: 409, code: 'already_approved' })
+  await assert.rejects(approve(rec.id, 'mallory'), { status: 403, code: 'not_an_approver' })
+  const done = await approve(rec.id, 'carol')
+  assert.equal(done.status, 'executed')
+  assert.deepEqual(executed, ['quorum'])
+})
+
+test('outstanding ignores repeated names and the requester', () => {
+  const rec = createApproval('run', 'acme/app', [twoOf], { id: 'dupes' }, caller('alice'))
+  const at = new Date().toISOString()
+  rec.approvals = [{ by: 'bob', at }, { by: 'bob', at }, { by: 'alice', at }]
+  assert.equal(outstanding(rec).length, 1)
+  rec.approvals.push({ by: 'carol', at })
+  assert.equal(outstanding(rec).length, 0)
+})
+
+test('reject closes the record', async () => {
+  const rec = createApproval('run', 'acme/app', [twoOf], { id: 'no' }, caller('agent'))
+  assert.equal(reject(rec.id, 'alice', 'not now').status, 'rejected')
+  await assert.rejects(approve(rec.id, 'bob'), { status: 409, code: 'approval_closed' })
+})
+
+test('withheld secrets stay off disk and reach the executor', async () => {
+  const rec = createApproval('run', 'acme/app', [twoOf], { id: 'secret' }, caller('agent'), { secrets: { 0: { kv: { API_KEY: 'sk-very-secret' } } } })
+  assert.equal(rec.secretsWithheld, true)
+  assert.ok(!fs.readFileSync(path.join(ENV.DATA_DIR, 'approvals.json'), 'utf8').includes('sk-very-secret'))
+  await approve(rec.id, 'bob')
+  assert.equal((await approve(rec.id, 'carol')).status, 'executed')
+  assert.deepEqual(received[received.length - 1], { 0: { kv: { API_KEY: 'sk-very-secret' } } })
+})
+
+test('a held request whose secrets were lost (restart) fails instead of running without them', async () => {
+  const rec = createApproval('run', 'acme/app', [twoOf], { id: 'lost' }, caller('agent'))
+  rec.secretsWithheld = true
+  await approve(rec.id, 'bob')
+  const done = await approve(rec.id, 'carol')
+  assert.equal(done.status, 'failed')
+  assert.equal(done.error, 'secrets_unavailable')
+  assert.ok(!executed.includes('lost'))
+})
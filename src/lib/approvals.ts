@@ -0,0 +1,165 @@
+import crypto from 'crypto'
+import { fileStore } from './store'
+import { httpError } from './errors'
+import type { ApprovalRequirement } from '../policy'
+import type { Caller } from './keys'
+
+export type HeldKind = 'run' | 'apply'
+export type ApprovalStatus = 'pending' | 'rejected' | 'expired' | 'executing' | 'executed' | 'failed'
+
+export type ApprovalRecord = {
+  id: string
+  kind: HeldKind
+  repo: string
+  // the held request runs with this caller's scopes once approved
+  requestedBy: Caller
+  status: ApprovalStatus
+  createdAt: string
+  expiresAt: string
+  requirements: ApprovalRequirement[]
+  approvals: Array<{ by: string, at: string, comment?: string }>
+  rejection?: { by: string, at: string, reason?: string }
+  // The original /run or /apply body with secret values redacted; replayed once approved, with the values put back
+  payload: any
+  // true when secret values were withheld from `payload`; they are kept in memory only
+  secretsWithheld?: boolean
+  // run: sha256 of each supabase.sql_migrate step's SQL (by step index) as linted when held; replay refuses other SQL
+  sqlChecksums?: Record<string, string>
+  result?: any
+  error?: string
+}
+
+/**
+ * Re-runs a held request. `approval` is passed so the executor can skip the gates it already cleared;
+ * `secrets` are the values withheld from the payload when it was held.
+ */
+export type Executor = (payload: any, approval: ApprovalRecord, secrets?: any) => Promise<any>
+
+const store = fileStore<ApprovalRecord>('approvals')
+const executors: Partial<Record<HeldKind, Executor>> = {}
+// Secret values withheld from stored payloads, by approval id. Never written to disk, so a restart
+// loses them and the held request has to be submitted again.
+const withheld = new Map<string, any>()
+
+export function registerExecutor(kind: HeldKind, fn: Executor) {
+  executors[kind] = fn
+}
+
+/** Marks a pending record expired once its deadline has passed */
+function refresh(rec: ApprovalRecord, now = Date.now()) {
+  if (rec.status === 'pending' && Date.parse(rec.expiresAt) <= now) {
+    rec.status = 'expired'
+    withheld.delete(rec.id)
+    store.put(rec.id, rec)
+  }
+  return rec
+}
+
+/** Holds a request; `payload` must already be redacted, the withheld values go in `secrets` */
+export function createApproval(
+  kind: HeldKind, repo: string, requirements: ApprovalRequirement[], payload: any, requestedBy: Caller,
+  { secrets, ...extra }: Pick<ApprovalRecord, 'sqlChecksums'> & { secrets?: any } = {}
+) {
+  const now = Date.now()
+  // The shortest expiry among the requirements wins
+  const hours = Math.min(...requirements.map(r => r.expiresInHours))
+  const rec: ApprovalRecord = {
+    id: crypto.randomUUID(),
+    kind,
+    repo,
+    requestedBy,
+    status: 'pending',
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + hours * 3600_000).toISOString(),
+    requirements,
+    approvals: [],
+    payload,
+    secretsWithheld: secrets !== undefined || undefined,
+    ...extra
+  }
+  if (secrets !== undefined) withheld.set(rec.id, secrets)
+  return store.put(rec.id, rec)
+}
+
+export function getApproval(id: string) {
+  const rec = store.get(id)
+  return rec && refresh(rec)
+}
+
+export function listApprovals(filter: { status?: string, repo?: string } = {}) {
+  return store.list()
+    .map(r => refresh(r))
+    .filter(r => (!filter.status || r.status === filter.status) && (!filter.repo || r.repo === filter.repo))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+}
+
+/** Requirements that have not yet collected their quorum from distinct approvers of their own, requester excluded */
+export function outstanding(rec: ApprovalRecord) {
+  return rec.requirements.filter(req => {
+    const by = new Set(rec.approvals.map(a => a.by).filter(b => req.approvers.includes(b) && b !== rec.requestedBy.name))
+    return by.size < req.quorum
+  })
+}
+
+/** True when the record has its quorum and one of its requirements is tool.action in env */
+export function covers(rec: ApprovalRecord | undefined, tool: string, action: string, env: string) {
+  return !!rec && outstanding(rec).length === 0 && rec.requirements.some(r => r.tool === tool && r.action === action && r.env === env)
+}
+
+function pendingOr409(id: string) {
+  const rec = getApproval(id)
+  if (!rec) throw httpError(404, 'not_found', { id })
+  if (rec.status !== 'pending') throw httpError(409, 'approval_closed', { id, status: rec.status })
+  return rec
+}
+
+function assertApprover(rec: ApprovalRecord, by: string) {
+  if (!by || !rec.requirements.some(r => r.approvers.includes(by))) {
+    throw httpError(403, 'not_an_approver', { id: rec.id, approver: by || null })
+  }
+}
+
+/**
+ * Records a sign-off. `by` is the authenticated caller, never a name from the
+ * request body; nobody can approve their own request. When the last outstanding
+ * quorum is met the held request is executed immediately and its result stored.
+ */
+export async function approve(id: string, by: string, comment?: string) {
+  const rec = pendingOr409(id)
+  assertApprover(rec, by)
+  if (by === rec.requestedBy.name) throw httpError(403, 'self_approval', { id, approver: by })
+  if (rec.approvals.some(a => a.by === by)) throw httpError(409, 'already_approved', { id, approver: by })
+  rec.approvals.push({ by, at: new Date().toISOString(), comment })
+  store.put(rec.id, rec)
+
+  if (outstanding(rec).length > 0) return rec
+
+  const exec = executors[rec.kind]
+  if (!exec) throw new Error(`no executor registered for ${rec.kind}`)
+  // Leave 'pending' before awaiting so a concurrent approval cannot run the request twice
+  rec.status = 'executing'
+  store.put(rec.id, rec)
+  const secrets = withheld.get(rec.id)
+  withheld.delete(rec.id)
+  try {
+    if (rec.secretsWithheld && secrets === undefined) {
+      throw httpError(409, 'secrets_unavailable', { id: rec.id, hint: 'Butler restarted while this request was held; submit it again' })
+    }
+    rec.result = await exec(rec.payload, rec, secrets)
+    rec.status = 'executed'
+  } catch (err: any) {
+    rec.status = 'failed'
+    rec.error = err?.message || String(err)
+    rec.result = err?.details
+  }
+  return store.put(rec.id, rec)
+}
+
+export function reject(id: string, by: string, reason?: string) {
+  const rec = pendingOr409(id)
+  assertApprover(rec, by)
+  rec.status = 'rejected'
+  withheld.delete(rec.id)
+  rec.rejection = { by, at: new Date().toISOString(), reason }
+  return store.put(rec.id, rec)
+}
@@ -0,0 +1,54 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import crypto from 'crypto'
+import fs from 'fs'
+import path from 'path'
+import { ENV } from './env'
+import type { Caller } from './keys'
+import { appendAudit, queryAudit, summarizeEdits, verifyAudit } from './audit'
+
+const caller: Caller = { keyId: 'k1', name: 'agent', repos: ['*'], tools: ['*'], envs: ['*'], legacy: false }
+const logFile = () => ENV.AUDIT_LOG_FILE || path.join(ENV.DATA_DIR, 'audit.jsonl')
+
+test('entries chain by hash and classify decisions', () => {
+  const a = appendAudit({ caller, endpoint: 'POST /apply', status: 200, repo: 'acme/app' })
+  const b = appendAudit({ caller, endpoint: 'POST /run', status: 202, repo: 'acme/app' })
+  const c = appendAudit({ caller: null, endpoint: 'POST /apply', status: 403, error: { code: 'policy_denied' } })
+  assert.equal(a.prevHash, '0'.repeat(64))
+  assert.equal(b.prevHash, a.hash)
+  assert.equal(c.prevHash, b.hash)
+  assert.deepEqual([a.decision, b.decision, c.decision], ['allowed', 'pending_approval', 'denied'])
+  assert.deepEqual(verifyAudit(), { ok: true, entries: 3 })
+  assert.deepEqual(queryAudit({ repo: 'acme/app' }).map(e => e.seq), [b.seq, a.seq])
+})
+
+test('verifyAudit reports the first edited entry', () => {
+  const lines = fs.readFileSync(logFile(), 'utf8').split('\n')
+  const second = JSON.parse(lines[1])
+  second.status = 200
+  lines[1] = JSON.stringify(second)
+  fs.writeFileSync(logFile(), lines.join('\n'))
+  assert.deepEqual(verifyAudit(), { ok: false, entries: 3, brokenAt: second.seq })
+})
+
+test('the limit applies after entries outside the reader\'s repos are dropped', () => {
+  const mine = appendAudit({ caller, endpoint: 'POST /apply', status: 200, repo: 'acme/app' })
+  for (let i = 0; i < 3; i++) appendAudit({ caller, endpoint: 'POST /apply', status: 200, repo: 'other/secret' })
+  const unscoped = appendAudit({ caller, endpoint: 'POST /apply', status: 401, error: { code: 'unauthorized' } })
+  assert.deepEqual(queryAudit({ repos: ['acme/*'], limit: 2 }).map(e => e.seq), [unscoped.seq, mine.seq])
+  assert.equal(queryAudit({ repos: ['acme/*'] }).some(e => e.repo === 'other/secret'), false)
+  assert.equal(queryAudit({ limit: 2 }).some(e => e.repo === 'other/secret'), true)
+})
+
+test('summarizeEdits hashes the bytes a base64 write decodes to', () => {
+  const bytes = Buffer.from([0, 1, 2, 255])
+  const sha = (b: Buffer | string) => crypto.createHash('sha256').update(b).digest('hex')
+  const [bin, text, rename] = summarizeEdits([
+    { op: 'write', path: 'assets/a.bin', content: bytes.toString('base64'), encoding: 'base64' },
+    { op: 'write', path: 'docs/a.md', content: 'héllo' },
+    { op: 'rename', from: 'docs/a.md', to: 'docs/b.md' }
+  ])!
+  assert.equal(bin.sha256, sha(bytes))
+  assert.equal(text.sha256, sha(Buffer.from('héllo', 'utf8')))
+  assert.deepEqual(rename, { op: 'rename', paths: ['docs/a.md', 'docs/b.md'], sha256: undefined })
+})
@@ -0,0 +1,143 @@
+import crypto from 'crypto'
+import fs from 'fs'
+import path from 'path'
+import { ENV } from './env'
+import { matchesGlob } from './allowlist'
+import { editPaths } from './edits'
+import type { Caller } from './keys'
+
+/** Fields handlers fill in while they work (res.locals.audit); the rest is added when the entry is written */
+export type AuditNote = {
+  repo?: string
+  branch?: string
+  env?: string
+  actions?: string[]         // "tool.action" touched, e.g. ["github.write_file", "github.open_pr"]
+  edits?: Array<{ op: string, paths: string[], sha256?: string }>
+  steps?: Array<{ tool: string, status: string }>
+  planId?: string
+  approvalId?: string
+  approvedBy?: string[]
+  commit?: string
+  prUrl?: string | null
+}
+
+export type AuditEntry = AuditNote & {
+  seq: number
+  at: string
+  caller: { name: string, keyId: string } | null
+  endpoint: string
+  status: number
+  decision: 'allowed' | 'denied' | 'pending_approval' | 'failed'
+  error?: { code: string, rule?: string | null, message?: string }
+  prevHash: string
+  hash: string
+}
+
+// Error codes that mean "a guard said no", as opposed to something breaking
+const DENIALS = new Set([
+  'unauthorized', 'scope_denied', 'repo_not_allowed', 'policy_denied', 'outside_time_window',
+  'rate_limited', 'workflow_edit_blocked', 'path_not_allowed', 'secret_detected', 'not_an_approver'
+])
+
+const GENESIS = '0'.repeat(64)
+let tail: { seq: number, hash: string } | null = null
+
+function file() {
+  return ENV.AUDIT_LOG_FILE || path.join(ENV.DATA_DIR, 'audit.jsonl')
+}
+
+function readAll(): AuditEntry[] {
+  let text = ''
+  try {
+    text = fs.readFileSync(file(), 'utf8')
+  } catch (err: any) {
+    if (err?.code !== 'ENOENT') throw err
+  }
+  return text.split('\n').filter(Boolean).map(l => JSON.parse(l) as AuditEntry)
+}
+
+function digest(prevHash: string, body: Omit<AuditEntry, 'hash'>) {
+  return crypto.createHash('sha256').update(prevHash).update(JSON.stringify(body)).digest('hex')
+}
+
+/** sha256 of what each edit writes (the decoded bytes for base64 writes), so the log proves content without storing it */
+export function summarizeEdits(edits: any[]): AuditNote['edits'] {
+  return edits.map(e => {
+    const material = e.op === 'write' ? Buffer.from(String(e.content), e.encoding === 'base64' ? 'base64' : 'utf8')
+      : e.op === 'replace' ? `${e.search}\u0000${e.replace}` : e.op === 'chmod' ? String(e.mode) : undefined
+    return {
+      op: e.op,
+      paths: editPaths(e),
+      sha256: material === undefined ? undefined : crypto.createHash('sha256').update(material).digest('hex')
+    }
+  })
+}
+
+/**
+ * Appends one entry, chained to the previous one by hash. Append-only: nothing
+ * in Butler rewrites or truncates the file, and verifyAudit() detects edits.
+ */
+export function appendAudit(input: AuditNote & {
+  caller: Caller | null
+  endpoint: string
+  status: number
+  error?: AuditEntry['error']
+}) {
+  if (!tail) {
+    const all = readAll()
+    const last = all[all.length - 1]
+    tail = last ? { seq: last.seq, hash: last.hash } : { seq: 0, hash: GENESIS }
+  }
+  const { caller, error, status } = input
+  const decision: AuditEntry['decision'] = error
+    ? (DENIALS.has(error.code) ? 'denied' : 'failed')
+    : status === 202 ? 'pending_approval' : status >= 400 ? 'failed' : 'allowed'
+  const body: Omit<AuditEntry, 'hash'> = {
+    ...input,
+    seq: tail.seq + 1,
+    at: new Date().toISOString(),
+    caller: caller ? { name: caller.name, keyId: caller.keyId } : null,
+    decision,
+    prevHash: tail.hash
+  }
+  const entry: AuditEntry = { ...body, hash: digest(tail.hash, body) }
+  fs.mkdirSync(path.dirname(file()), { recursive: true })
+  fs.appendFileSync(file(), JSON.stringify(entry) + '\n')
+  tail = { seq: entry.seq, hash: entry.hash }
+  return entry
+}
+
+export type AuditQuery = {
+  repo?: string, caller?: string, action?: string, since?: string, until?: string, limit?: number
+  // "owner/name" globs the reader may see; entries without a repo are always included
+  repos?: string[]
+}
+
+/** Newest first; `limit` counts only entries the reader may see */
+export function queryAudit(q: AuditQuery): AuditEntry[] {
+  const since = q.since ? Date.parse(q.since) : -Infinity
+  const until = q.until ? Date.parse(q.until) : Infinity
+  return readAll()
+    .filter(e => {
+      const at = Date.parse(e.at)
+      return at >= since && at <= until
+        && (!q.repo || e.repo === q.repo)
+        && (!q.repos || !e.repo || matchesGlob(e.repo, q.repos))
+        && (!q.caller || e.caller?.name === q.caller)
+        && (!q.action || (e.actions || []).includes(q.action) || e.endpoint.includes(q.action))
+    })
+    .reverse()
+    .slice(0, q.limit ?? 100)
+}
+
+/** Re-walks the chain; returns the first entry whose hash or link does not check out */
+export function verifyAudit(): { ok: boolean, entries: number, brokenAt?: number } {
+  let prev = GENESIS
+  const all = readAll()
+  for (const e of all) {
+    const { hash, ...body } = e
+    if (e.prevHash !== prev || digest(prev, body) !== hash) return { ok: false, entries: all.length, brokenAt: e.seq }
+    prev = hash
+  }
+  return { ok: true, entries: all.length }
+}
@@ -0,0 +1,30 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { assertRole, chatCaller, parseCommand } from './chatops'
+
+test('parseCommand reads the first /butler line', () => {
+  assert.deepEqual(parseCommand('/butler plan add a README'), { command: 'plan', args: 'add a README' })
+  assert.deepEqual(parseCommand('Looks good.\r\n  /BUTLER Approve  abc-123 \n/butler apply'), { command: 'approve', args: 'abc-123' })
+  assert.deepEqual(parseCommand('/butler rebase'), { command: 'rebase', args: '' })
+  assert.equal(parseCommand('/butler deploy prod'), null)
+  assert.equal(parseCommand('/butlers plan x'), null)
+  assert.equal(parseCommand('please /butler plan x'), null)
+  assert.equal(parseCommand(''), null)
+})
+
+test('each command needs its minimum repo role', () => {
+  assert.doesNotThrow(() => assertRole('plan', 'octocat', 'triage'))
+  assert.doesNotThrow(() => assertRole('apply', 'octocat', 'admin'))
+  assert.throws(() => assertRole('plan', 'octocat', 'read'), { status: 403, code: 'insufficient_permission' })
+  assert.throws(() => assertRole('approve', 'octocat', 'triage'), { status: 403, code: 'insufficient_permission' })
+  assert.throws(() => assertRole('rebase', 'octocat', 'none'), { code: 'insufficient_permission' })
+  assert.throws(() => assertRole('apply', 'octocat', 'some-custom-role'), { code: 'insufficient_permission' })
+})
+
+test('chat callers cannot pass for API keys and only reach the PR tools', () => {
+  const caller = chatCaller('acme/app', 'dba')
+  assert.equal(caller.name, 'github:dba')
+  assert.deepEqual(caller.repos, ['acme/app'])
+  assert.deepEqual(caller.tools, ['github.write_file', 'github.open_pr'])
+  assert.deepEqual(caller.envs, ['staging'])
+})
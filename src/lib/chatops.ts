@@ -0,0 +1,140 @@
+import type { Octokit } from 'octokit'
+import { fileStore } from './store'
+import { httpError, isHttpError } from './errors'
+import { clientForRepo } from './github'
+import { appendAudit, AuditNote } from './audit'
+import { onWebhook } from './webhooks'
+import { getPr, PrRecord } from './prs'
+import type { Caller } from './keys'
+
+export const CHAT_COMMANDS = ['plan', 'apply', 'approve', 'rebase'] as const
+export type ChatCommand = typeof CHAT_COMMANDS[number]
+
+// GitHub repo roles, weakest first; each command needs at least the listed one
+const ROLES = ['none', 'read', 'triage', 'write', 'maintain', 'admin']
+const REQUIRED_ROLE: Record<ChatCommand, string> = { plan: 'triage', apply: 'write', approve: 'write', rebase: 'write' }
+
+/** Per issue/PR conversation: what the last commands produced, and which comments were already handled */
+export type ChatThread = {
+  repo: string
+  number: number
+  planId?: string
+  approvalId?: string
+  handled: number[]
+}
+
+export type ChatContext = {
+  octokit: Octokit
+  owner: string
+  repo: string
+  repoKey: string
+  number: number
+  login: string
+  caller: Caller
+  defaultBranch: string
+  // set when the comment is on a PR that /apply opened
+  pr?: PrRecord
+  thread: ChatThread
+  note: AuditNote
+}
+
+/** Runs one command and returns the markdown reply; throw an HttpError to reply with a failure */
+export type ChatHandler = (ctx: ChatContext, args: string) => Promise<string>
+
+const MAX_HANDLED = 200
+const threads = fileStore<ChatThread>('chatops')
+const keyOf = (repo: string, n: number) => `${repo}#${n}`
+
+/** `/butler <command> [args]` on the first line that starts with /butler */
+export function parseCommand(body: string): { command: ChatCommand, args: string } | null {
+  const line = String(body || '').split(/\r?\n/).map(l => l.trim()).find(l => /^\/butler\b/i.test(l))
+  if (!line) return null
+  const m = /^\/butler\s+(\S+)\s*(.*)$/i.exec(line)
+  const command = m?.[1].toLowerCase()
+  if (!m || !(CHAT_COMMANDS as readonly string[]).includes(command!)) return null
+  return { command: command as ChatCommand, args: m[2].trim() }
+}
+
+// What a chat command can reach: /butler apply and rebase write files and open a PR, nothing else
+const CHAT_TOOLS = ['github.write_file', 'github.open_pr']
+
+/**
+ * The commenter acts through a caller scoped to this repo; the policy decides what it may do.
+ * The name is "github:<login>" so a GitHub login can never pass for an API key's name:
+ * policies list chat approvers explicitly, e.g. approvers: ["dba", "github:octocat"].
+ */
+export function chatCaller(repoKey: string, login: string): Caller {
+  return { keyId: 'chatops', name: `github:${login}`, repos: [repoKey], tools: CHAT_TOOLS, envs: ['staging'], legacy: false }
+}
+
+/** Throws 403 insufficient_permission unless the repo `role` is at least what `command` needs */
+export function assertRole(command: ChatCommand, login: string, role: string) {
+  const need = REQUIRED_ROLE[command]
+  if (ROLES.indexOf(role) < ROLES.indexOf(need)) {
+    throw httpError(403, 'insufficient_permission', { user: login, role, required: need })
+  }
+}
+
+async function roleOf(octokit: Octokit, owner: string, repo: string, username: string) {
+  try {
+    const { data } = await octokit.rest.repos.getCollaboratorPermissionLevel({ owner, repo, username })
+    return (data as any).role_name || data.permission || 'none'
+  } catch (err: any) {
+    if (err?.status === 404) return 'none'
+    throw err
+  }
+}
+
+function failureReply(command: string, err: unknown) {
+  if (!isHttpError(err)) return `:x: \`/butler ${command}\` failed: ${err instanceof Error ? err.message : String(err)}`
+  const details = Object.keys(err.details).length > 0 ? `\n\n\`\`\`json\n${JSON.stringify(err.details, null, 2)}\n\`\`\`` : ''
+  return `:x: \`/butler ${command}\` failed: **${err.code}**${details}`
+}
+
+/**
+ * Hooks `/butler <command>` comments on issues and PRs. Only newly created comments from
+ * users count (edits and bot comments, including Butler's own replies, are ignored),
+ * and each comment id is handled at most once.
+ */
+export function installChatOps(handlers: Record<ChatCommand, ChatHandler>) {
+  onWebhook('issue_comment', async (p) => {
+    if (p.action !== 'created' || p.comment?.user?.type === 'Bot') return
+    const parsed = parseCommand(p.comment?.body)
+    if (!parsed) return
+
+    const [owner, repo] = String(p.repository.full_name).split('/')
+    const repoKey = `${owner}/${repo}`
+    const number: number = p.issue.number
+    const login: string = p.comment.user.login
+    const thread = threads.get(keyOf(repoKey, number)) || { repo: repoKey, number, handled: [] }
+    if (thread.handled.includes(p.comment.id)) return
+    // claim the comment before doing any work, so a redelivery cannot run it twice
+    thread.handled = [...thread.handled, p.comment.id].slice(-MAX_HANDLED)
+    threads.put(keyOf(repoKey, number), thread)
+
+    const octokit = await clientForRepo(owner, repo)
+    const caller = chatCaller(repoKey, login)
+    const note: AuditNote = { repo: repoKey }
+    const ctx: ChatContext = {
+      octokit, owner, repo, repoKey, number, login, caller, thread, note,
+      defaultBranch: p.repository.default_branch || 'main',
+      pr: p.issue.pull_request ? getPr(repoKey, number) : undefined
+    }
+
+    let reply: string
+    let status = 200
+    let error: { code: string, rule?: string } | undefined
+    try {
+      assertRole(parsed.command, login, await roleOf(octokit, owner, repo, login))
+      reply = await handlers[parsed.command](ctx, parsed.args)
+      threads.put(keyOf(repoKey, number), thread)
+    } catch (err) {
+      reply = failureReply(parsed.command, err)
+      status = isHttpError(err) ? err.status : 500
+      error = isHttpError(err) ? { code: err.code, rule: err.details.rule } : { code: 'internal_error' }
+    }
+
+    appendAudit({ ...note, caller, endpoint: `COMMENT /butler ${parsed.command}`, status, error })
+    await octokit.rest.issues.createComment({ owner, repo, issue_number: number, body: `@${login} ${reply}` })
+  })
+}
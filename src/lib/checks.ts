@@ -0,0 +1,83 @@
+import type { Octokit } from 'octokit'
+import type { ChecksSummary } from './prs'
+
+export type FailedCheck = {
+  name: string
+  kind: 'check_run' | 'status'
+  conclusion: string
+  url?: string
+  logExcerpt?: string
+}
+
+/** CI state of one commit: check runs (Actions and other apps) plus legacy commit statuses */
+export type ChecksReport = {
+  sha: string
+  state: ChecksSummary
+  total: number
+  passed: string[]
+  failed: FailedCheck[]
+  pending: string[]
+  checkedAt: string
+}
+
+const FAILED = new Set(['failure', 'timed_out', 'cancelled', 'action_required', 'startup_failure', 'stale', 'error'])
+const EXCERPT_LINES = 30
+const EXCERPT_CHARS = 4000
+
+function tail(text: string) {
+  const lines = text.replace(/\r/g, '').trimEnd().split('\n').slice(-EXCERPT_LINES)
+  const out = lines.join('\n')
+  return out.length > EXCERPT_CHARS ? out.slice(out.length - EXCERPT_CHARS) : out
+}
+
+/** Last lines of an Actions job log, else the check's own output; undefined when neither is readable */
+async function excerptFor(gh: Octokit, owner: string, repo: string, run: any): Promise<string | undefined> {
+  if (run.app?.slug === 'github-actions') {
+    try {
+      // for Actions, the check run id is the job id
+      const { data } = await gh.rest.actions.downloadJobLogsForWorkflowRun({ owner, repo, job_id: run.id })
+      if (typeof data === 'string' && data) return tail(data)
+    } catch {
+      // logs expire and need actions:read; fall back to the check output
+    }
+  }
+  const text = [run.output?.title, run.output?.summary, run.output?.text].filter(Boolean).join('\n')
+  return text ? tail(text) : undefined
+}
+
+export async function collectChecks(gh: Octokit, owner: string, repo: string, sha: string): Promise<ChecksReport> {
+  const runs = await gh.paginate(gh.rest.checks.listForRef, { owner, repo, ref: sha, per_page: 100 }) as any[]
+  const combined = await gh.rest.repos.getCombinedStatusForRef({ owner, repo, ref: sha, per_page: 100 })
+
+  const passed: string[] = []
+  const failed: FailedCheck[] = []
+  const pending: string[] = []
+  for (const run of runs) {
+    if (run.status !== 'completed') pending.push(run.name)
+    else if (FAILED.has(run.conclusion)) {
+      failed.push({ name: run.name, kind: 'check_run', conclusion: run.conclusion, url: run.html_url, logExcerpt: await excerptFor(gh, owner, repo, run) })
+    } else passed.push(run.name)
+  }
+  for (const s of combined.data.statuses) {
+    if (s.state === 'pending') pending.push(s.context)
+    else if (FAILED.has(s.state)) {
+      failed.push({ name: s.context, kind: 'status', conclusion: s.state, url: s.target_url || undefined, logExcerpt: s.description || undefined })
+    } else passed.push(s.context)
+  }
+
+  const total = passed.length + failed.length + pending.length
+  const state: ChecksSummary = total === 0 ? 'none' : failed.length > 0 ? 'failure' : pending.length > 0 ? 'pending' : 'success'
+  return { sha, state, total, passed, failed, pending, checkedAt: new Date().toISOString() }
+}
+
+/** Markdown summary for a PR comment */
+export function renderChecks(r: ChecksReport) {
+  const icon = { success: ':white_check_mark:', failure: ':x:', pending: ':hourglass:', none: ':grey_question:' }[r.state]
+  const lines = [`${icon} **Checks ${r.state}** for \`${r.sha.slice(0, 7)}\`: ${r.passed.length} passed, ${r.failed.length} failed, ${r.pending.length} pending`]
+  for (const f of r.failed) {
+    lines.push('', `**${f.name}** (${f.conclusion})${f.url ? ` [details](${f.url})` : ''}`)
+    if (f.logExcerpt) lines.push('```', f.logExcerpt, '```')
+  }
+  if (r.pending.length > 0) lines.push('', `Still running: ${r.pending.join(', ')}`)
+  return lines.join('\n')
+}
@@ -0,0 +1,286 @@
+import crypto from 'crypto'
+import { ENV } from './env'
+import { fileStore } from './store'
+import { clientForRepo } from './github'
+import { listPrs } from './prs'
+
+export type PreviewProvider = 'vercel' | 'render'
+export type PreviewState = 'building' | 'ready' | 'failed' | 'timed_out'
+
+/** One preview deployment Butler triggered, followed until it is ready or failed */
+export type PreviewRecord = {
+  id: string
+  provider: PreviewProvider
+  repo: string
+  branch: string
+  commit: string
+  deploymentId: string
+  state: PreviewState
+  url: string | null
+  // provider dashboard page for the deployment, when it has one
+  inspectorUrl?: string
+  error?: string
+  // last build log lines, read once the deployment settles
+  logExcerpt?: string
+  // post the URL on the branch's Butler PR once settled
+  comment: boolean
+  prNumber?: number
+  commentUrl?: string
+  commentSkipped?: string
+  createdBy: string
+  createdAt: string
+  updatedAt: string
+}
+
+type Status = { state: PreviewState, url: string | null, error?: string }
+
+type Provider = {
+  trigger(repo: string, branch: string, commit: string, opts: { serviceId?: string }): Promise<{ deploymentId: string, url: string | null, inspectorUrl?: string }>
+  status(rec: PreviewRecord): Promise<Status>
+  logs(rec: PreviewRecord): Promise<string[]>
+}
+
+const EXCERPT_LINES = 40
+const EXCERPT_CHARS = 4000
+
+function tail(lines: string[]) {
+  const out = lines.join('\n').replace(/\r/g, '').trimEnd().split('\n').slice(-EXCERPT_LINES).join('\n')
+  return out.length > EXCERPT_CHARS ? out.slice(out.length - EXCERPT_CHARS) : out
+}
+
+async function call(name: string, base: string, token: string, method: string, path: string, body?: any): Promise<any> {
+  const headers: Record<string, string> = { Authorization: `Bearer ${token}`, Accept: 'application/json' }
+  if (body !== undefined) headers['Content-Type'] = 'application/json'
+  const res = await fetch(`${base}${path}`, { method, headers, body: body === undefined ? undefined : JSON.stringify(body) })
+  const text = await res.text()
+  if (!res.ok) throw new Error(`${name}_api_failed ${method} ${path.split('?')[0]} ${res.status}: ${text.slice(0, 200)}`)
+  return text ? JSON.parse(text) : null
+}
+
+const https = (host?: string | null) => (host ? (/^https?:\/\//.test(host) ? host : `https://${host}`) : null)
+
+// Vercel: deployments are created from the GitHub source, so any branch/commit can be previewed
+function vercelApi(method: string, path: string, body?: any) {
+  if (!ENV.VERCEL_TOKEN || !ENV.VERCEL_PROJECT) throw new Error('vercel_not_configured: set VERCEL_TOKEN and VERCEL_PROJECT')
+  const team = ENV.VERCEL_TEAM_ID ? `${path.includes('?') ? '&' : '?'}teamId=${encodeURIComponent(ENV.VERCEL_TEAM_ID)}` : ''
+  return call('vercel', ENV.VERCEL_API_URL, ENV.VERCEL_TOKEN, method, `${path}${team}`, body)
+}
+
+const VERCEL_FAILED = new Set(['ERROR', 'CANCELED'])
+
+const vercel: Provider = {
+  async trigger(repo, branch, commit) {
+    const [org, name] = repo.split('/')
+    const d = await vercelApi('POST', '/v13/deployments', {
+      name: ENV.VERCEL_PROJECT,
+      project: ENV.VERCEL_PROJECT,
+      gitSource: { type: 'github', org, repo: name, ref: branch, sha: commit }
+    })
+    return { deploymentId: d.id, url: https(d.url), inspectorUrl: d.inspectorUrl }
+  },
+  async status(rec) {
+    const d = await vercelApi('GET', `/v13/deployments/${encodeURIComponent(rec.deploymentId)}`)
+    const state: PreviewState = d.readyState === 'READY' ? 'ready' : VERCEL_FAILED.has(d.readyState) ? 'failed' : 'building'
+    return { state, url: https(d.url), error: state === 'failed' ? d.errorMessage || d.readyState : undefined }
+  },
+  async logs(rec) {
+    const events = await vercelApi('GET', `/v3/deployments/${encodeURIComponent(rec.deploymentId)}/events?builds=1&direction=backward&limit=${EXCERPT_LINES}`)
+    const list = Array.isArray(events) ? events : []
+    // direction=backward returns newest first
+    return list.map((e: any) => e.text ?? e.payload?.text).filter((t: any) => typeof t === 'string').reverse()
+  }
+}
+
+// Render: a deploy builds a commit of the service's branch; point serviceId at the service that tracks the branch
+function renderApi(method: string, path: string, body?: any) {
+  if (!ENV.RENDER_API_KEY) throw new Error('render_not_configured: set RENDER_API_KEY')
+  return call('render', ENV.RENDER_API_URL, ENV.RENDER_API_KEY, method, path, body)
+}
+
+const RENDER_FAILED = new Set(['build_failed', 'update_failed', 'pre_deploy_failed', 'canceled', 'deactivated'])
+
+function renderService(serviceId?: string) {
+  const id = serviceId || ENV.RENDER_SERVICE_ID
+  if (!id) throw new Error('render_not_configured: set RENDER_SERVICE_ID or pass serviceId')
+  return id
+}
+
+// Render deploy ids are only unique per service, so the record keeps both as "<service>/<deploy>"
+const renderIds = (rec: PreviewRecord) => {
+  const [service, deploy] = rec.deploymentId.split('/')
+  return { service, deploy }
+}
+
+const render: Provider = {
+  async trigger(_repo, _branch, commit, opts) {
+    const service = renderService(opts.serviceId)
+    const d = await renderApi('POST', `/v1/services/${encodeURIComponent(service)}/deploys`, { commitId: commit, clearCache: 'do_not_clear' })
+    return { deploymentId: `${service}/${d.id}`, url: null, inspectorUrl: `https://dashboard.render.com/web/${service}/deploys/${d.id}` }
+  },
+  async status(rec) {
+    const { service, deploy } = renderIds(rec)
+    const d = await renderApi('GET', `/v1/services/${encodeURIComponent(service)}/deploys/${encodeURIComponent(deploy)}`)
+    if (RENDER_FAILED.has(d.status)) return { state: 'failed', url: null, error: d.status }
+    if (d.status !== 'live') return { state: 'building', url: null }
+    const s = await renderApi('GET', `/v1/services/${encodeURIComponent(service)}`)
+    return { state: 'ready', url: https(s.serviceDetails?.url) }
+  },
+  async logs(rec) {
+    // the logs API is scoped to the workspace (owner); without it there is no excerpt
+    if (!ENV.RENDER_OWNER_ID) return []
+    const { service } = renderIds(rec)
+    const q = new URLSearchParams({
+      ownerId: ENV.RENDER_OWNER_ID, resource: service, type: 'build', direction: 'backward',
+      limit: String(EXCERPT_LINES), startTime: rec.createdAt
+    })
+    const out = await renderApi('GET', `/v1/logs?${q}`)
+    return (out?.logs || []).map((l: any) => l.message).filter((m: any) => typeof m === 'string').reverse()
+  }
+}
+
+const providers: Record<PreviewProvider, Provider> = { vercel, render }
+
+const store = fileStore<PreviewRecord>('previews')
+const watching = new Set<string>()
+
+const settled = (rec: PreviewRecord) => rec.state !== 'building'
+
+export function getPreview(id: string) {
+  return store.get(id)
+}
+
+/** True when `origin` is where one of the repo's recorded previews is served */
+export function isPreviewOrigin(repo: string, origin: string) {
+  return store.list().some(p => p.repo === repo && !!p.url && new URL(p.url).origin === origin)
+}
+
+/** Newest preview of a branch in any state, e.g. for a smoke test step that follows create_preview */
+export function latestPreview(repo: string, branch: string) {
+  return store.list()
+    .filter(p => p.repo === repo && p.branch === branch)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0]
+}
+
+function renderComment(rec: PreviewRecord) {
+  const name = rec.provider === 'vercel' ? 'Vercel' : 'Render'
+  const lines = rec.state === 'ready'
+    ? [`**Preview ready** (${name}, \`${rec.commit.slice(0, 7)}\`): ${rec.url}`]
+    : [`**Preview ${rec.state === 'failed' ? 'failed' : 'timed out'}** (${name}, \`${rec.commit.slice(0, 7)}\`)${rec.error ? `: ${rec.error}` : ''}`]
+  if (rec.inspectorUrl) lines.push('', `[deployment details](${rec.inspectorUrl})`)
+  if (rec.state !== 'ready' && rec.logExcerpt) lines.push('', '```', rec.logExcerpt, '```')
+  return lines.join('\n')
+}
+
+/** Comments once on the Butler PR of the branch (or the given prNumber) after the preview settles */
+async function report(rec: PreviewRecord) {
+  if (!rec.comment || rec.commentUrl || rec.commentSkipped || !settled(rec)) return
+  const number = rec.prNumber ?? listPrs(rec.repo).find(p => p.branch === rec.branch && p.state === 'open')?.number
+  if (!number) {
+    rec.commentSkipped = 'no open Butler PR for the branch'
+    return
+  }
+  const [owner, repo] = rec.repo.split('/')
+  const gh = await clientForRepo(owner, repo)
+  const { data } = await gh.rest.issues.createComment({ owner, repo, issue_number: number, body: renderComment(rec) })
+  Object.assign(rec, { prNumber: number, commentUrl: data.html_url })
+}
+
+/** Re-reads the deployment unless it already settled; reads the log excerpt and comments when it just did */
+export async function refreshPreview(id: string): Promise<PreviewRecord | undefined> {
+  const rec = store.get(id)
+  if (!rec) return undefined
+  if (!settled(rec)) {
+    Object.assign(rec, await providers[rec.provider].status(rec))
+    if (Date.now() - Date.parse(rec.createdAt) > ENV.PREVIEW_TIMEOUT_MINUTES * 60_000 && rec.state === 'building') rec.state = 'timed_out'
+    if (settled(rec)) {
+      try {
+        rec.logExcerpt = tail(await providers[rec.provider].logs(rec)) || undefined
+      } catch (err: any) {
+        console.warn(`no build logs for preview ${id}: ${err?.message || err}`)
+      }
+    }
+  }
+  await report(rec)
+  rec.updatedAt = new Date().toISOString()
+  return store.put(rec.id, rec)
+}
+
+/** Polls in the background every PREVIEW_POLL_SECONDS until the preview settles (or PREVIEW_TIMEOUT_MINUTES pass) */
+export function watchPreview(id: string) {
+  if (watching.has(id)) return
+  watching.add(id)
+  const tick = async () => {
+    try {
+      const rec = await refreshPreview(id)
+      if (!rec || settled(rec)) {
+        watching.delete(id)
+        return
+      }
+    } catch (err) {
+      console.error(`preview poll for ${id} failed:`, err)
+    }
+    setTimeout(tick, ENV.PREVIEW_POLL_SECONDS * 1000).unref()
+  }
+  setTimeout(tick, ENV.PREVIEW_POLL_SECONDS * 1000).unref()
+}
+
+async function branchHead(owner: string, repo: string, branch: string) {
+  const gh = await clientForRepo(owner, repo)
+  const { data } = await gh.rest.repos.getBranch({ owner, repo, branch })
+  return data.commit.sha
+}
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms))
+// while the request waits, poll faster than the background watcher does
+const WAIT_POLL_MS = 2000
+// requests are cut off after 15s; keep the wait (counted from the start, trigger included) well inside that
+const MAX_PREVIEW_WAIT_SECONDS = 10
+
+/** Polls a preview until it settles or the next poll would end after `deadline` (epoch ms) */
+export async function awaitPreview(id: string, deadline: number): Promise<PreviewRecord | undefined> {
+  let rec = await refreshPreview(id)
+  while (rec && !settled(rec) && Date.now() + WAIT_POLL_MS <= deadline) {
+    await sleep(WAIT_POLL_MS)
+    rec = await refreshPreview(id)
+  }
+  return rec
+}
+
+/**
+ * Triggers a preview of `commit` (the branch head when omitted) and polls until
+ * `waitSeconds` (at most MAX_PREVIEW_WAIT_SECONDS) have passed since the call began,
+ * or until `deadline` (the run's) if that comes first. A slower build keeps being
+ * followed in the background and GET /previews/:id reports where it got to.
+ */
+export async function startPreview(input: {
+  provider: PreviewProvider, repo: string, branch: string, commit?: string, serviceId?: string,
+  comment?: boolean, prNumber?: number, waitSeconds?: number, deadline?: number, createdBy: string
+}): Promise<PreviewRecord> {
+  const waitSeconds = Math.min(MAX_PREVIEW_WAIT_SECONDS, Math.max(0, input.waitSeconds ?? ENV.PREVIEW_WAIT_SECONDS))
+  const deadline = Math.min(Date.now() + waitSeconds * 1000, input.deadline ?? Infinity)
+  const [owner, repo] = input.repo.split('/')
+  const commit = input.commit || await branchHead(owner, repo, input.branch)
+  const d = await providers[input.provider].trigger(input.repo, input.branch, commit, { serviceId: input.serviceId })
+  const now = new Date().toISOString()
+  const rec: PreviewRecord = {
+    id: `prv_${crypto.randomBytes(8).toString('hex')}`,
+    provider: input.provider,
+    repo: input.repo,
+    branch: input.branch,
+    commit,
+    deploymentId: d.deploymentId,
+    state: 'building',
+    url: d.url,
+    inspectorUrl: d.inspectorUrl,
+    comment: !!input.comment,
+    prNumber: input.prNumber,
+    createdBy: input.createdBy,
+    createdAt: now,
+    updatedAt: now
+  }
+  store.put(rec.id, rec)
+
+  const latest = (await awaitPreview(rec.id, deadline))!
+  if (!settled(latest)) watchPreview(latest.id)
+  return latest
+}
@@ -0,0 +1,113 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { Edits } from '../types'
+import { isPathAllowed } from './allowlist'
+import { computeChanges, editPaths, isChanged, type FileLoader } from './edits'
+
+const repo = (files: Record<string, string>): FileLoader => async p =>
+  p in files ? { content: Buffer.from(files[p]), mode: '100644' } : null
+
+const run = (edits: unknown[], files: Record<string, string> = {}) => computeChanges(Edits.parse(edits), repo(files))
+
+const text = (c: { after: Buffer | null }) => c.after?.toString('utf8') ?? null
+
+async function rejects(p: Promise<unknown>, status: number, code: string) {
+  await assert.rejects(p, (err: any) => err.status === status && err.code === code)
+}
+
+test('replace: literal, regex and single-match modes', async () => {
+  const files = { 'src/a.ts': 'a.b a.b axb' }
+  const literal = await run([{ op: 'replace', path: 'src/a.ts', search: 'a.b', replace: '$&!' }], files)
+  assert.equal(text(literal.files[0]), '$&! $&! axb')
+  const regex = await run([{ op: 'replace', path: 'src/a.ts', search: 'a(.)b', replace: '[$1]', isRegex: true }], files)
+  assert.equal(text(regex.files[0]), '[.] [.] [x]')
+  const once = await run([{ op: 'replace', path: 'src/a.ts', search: 'a.b', replace: 'c', all: false }], files)
+  assert.equal(text(once.files[0]), 'c a.b axb')
+})
+
+test('replace: no match or a missing file is a noop', async () => {
+  const { files, noops } = await run([
+    { op: 'replace', path: 'src/a.ts', search: 'zzz', replace: 'y' },
+    { op: 'replace', path: 'src/missing.ts', search: 'x', replace: 'y' }
+  ], { 'src/a.ts': 'abc' })
+  assert.deepEqual(noops, [0, 1])
+  assert.equal(files.some(isChanged), false)
+})
+
+test('replace: invalid, backtracking and backreference patterns are refused', async () => {
+  const files = { 'src/a.ts': 'aaaa' }
+  for (const search of ['(', '^(a+)+$', '(a*)*b', '((a+))+', '(a{2,})+', '(\\w)\\1', '(?<x>a)\\k<x>', 'a'.repeat(501)]) {
+    await rejects(run([{ op: 'replace', path: 'src/a.ts', search, replace: '', isRegex: true }], files), 400, 'invalid')
+  }
+  // repeats that do not nest are fine
+  const ok = await run([{ op: 'replace', path: 'src/a.ts', search: '(?:a|b)+?(a)?[+*]*\\(x+\\)+', replace: '', isRegex: true }], files)
+  assert.deepEqual(ok.noops, [0])
+})
+
+test('replace: regex search over an oversized file is refused, literal is not', async () => {
+  const files = { 'src/big.ts': 'x'.repeat(200_001) }
+  await rejects(run([{ op: 'replace', path: 'src/big.ts', search: 'x', replace: 'y', isRegex: true, all: false }], files), 400, 'invalid')
+  const literal = await run([{ op: 'replace', path: 'src/big.ts', search: 'x', replace: 'y', all: false }], files)
+  assert.equal(text(literal.files[0])?.slice(0, 2), 'yx')
+})
+
+test('write: overwrite, append, create and base64', async () => {
+  const files = { 'src/a.ts': 'one' }
+  assert.equal(text((await run([{ op: 'write', path: 'src/a.ts', content: 'two' }], files)).files[0]), 'two')
+  assert.equal(text((await run([{ op: 'write', path: 'src/a.ts', content: '+', mode: 'append' }], files)).files[0]), 'one+')
+  assert.equal(text((await run([{ op: 'write', path: 'src/new.ts', content: 'x', mode: 'append' }], files)).files[0]), 'x')
+  const bin = Buffer.from([0, 255, 1, 2])
+  const { files: out } = await run([{ op: 'write', path: 'assets/logo.bin', content: bin.toString('base64'), encoding: 'base64', mode: 'create' }])
+  assert.deepEqual(out[0].after, bin)
+  assert.equal(out[0].before, null)
+  await rejects(run([{ op: 'write', path: 'src/a.ts', content: 'x', mode: 'create' }], files), 409, 'file_exists')
+})
+
+test('later edits see earlier ones', async () => {
+  const { files, noops } = await run([
+    { op: 'write', path: 'src/a.ts', content: 'hello' },
+    { op: 'replace', path: 'src/a.ts', search: 'hello', replace: 'bye' },
+    { op: 'write', path: 'src/a.ts', content: 'bye' }
+  ])
+  assert.equal(files.length, 1)
+  assert.equal(text(files[0]), 'bye')
+  assert.deepEqual(noops, [2])
+})
+
+test('delete: removes the file; deleting a missing file is a noop', async () => {
+  const { files, noops } = await run([{ op: 'delete', path: 'src/a.ts' }, { op: 'delete', path: 'src/gone.ts' }], { 'src/a.ts': 'x' })
+  assert.equal(files[0].after, null)
+  assert.equal(isChanged(files[0]), true)
+  assert.deepEqual(noops, [1])
+})
+
+test('rename: moves content and mode; both ends must be valid', async () => {
+  const { files } = await run([
+    { op: 'chmod', path: 'src/run.sh', mode: '100755' },
+    { op: 'rename', from: 'src/run.sh', to: 'src/bin/run.sh' }
+  ], { 'src/run.sh': '#!/bin/sh' })
+  const [from, to] = files
+  assert.equal(from.after, null)
+  assert.equal(text(to), '#!/bin/sh')
+  assert.equal(to.mode, '100755')
+  await rejects(run([{ op: 'rename', from: 'src/none.ts', to: 'src/b.ts' }]), 422, 'file_not_found')
+  await rejects(run([{ op: 'rename', from: 'src/a.ts', to: 'src/b.ts' }], { 'src/a.ts': 'a', 'src/b.ts': 'b' }), 409, 'file_exists')
+})
+
+test('rename: the allowlist sees both paths', () => {
+  const [e] = Edits.parse([{ op: 'rename', from: 'src/a.ts', to: 'scripts/a.ts' }])
+  assert.deepEqual(editPaths(e), ['src/a.ts', 'scripts/a.ts'])
+  assert.deepEqual(editPaths(e).filter(p => !isPathAllowed(p)), ['scripts/a.ts'])
+})
+
+test('chmod: sets the executable bit; a missing file is refused', async () => {
+  const { files, noops } = await run([
+    { op: 'chmod', path: 'src/run.sh', mode: '100755' },
+    { op: 'chmod', path: 'src/run.sh', mode: '100755' }
+  ], { 'src/run.sh': 'x' })
+  assert.equal(files[0].mode, '100755')
+  assert.equal(files[0].beforeMode, '100644')
+  assert.equal(isChanged(files[0]), true)
+  assert.deepEqual(noops, [1])
+  await rejects(run([{ op: 'chmod', path: 'src/none.sh', mode: '100755' }]), 422, 'file_not_found')
+})
@@ -0,0 +1,112 @@
+import { httpError } from './errors'
+import { MAX_REGEX_INPUT_LENGTH, unsafePattern } from './regex'
+import type { EditT } from '../types'
+
+export type FileMode = string   // git tree mode: '100644', '100755', '120000'
+
+/** One path's state before the batch and after every edit touching it; `null` content = absent */
+export type FileChange = {
+  path: string
+  before: Buffer | null
+  beforeMode: FileMode | null
+  after: Buffer | null
+  mode: FileMode
+}
+
+/** Reads a path at the batch's base; null when it does not exist */
+export type FileLoader = (path: string) => Promise<{ content: Buffer, mode: FileMode } | null>
+
+/** Paths an edit reads or writes (rename touches both ends) */
+export function editPaths(e: EditT): string[] {
+  return e.op === 'rename' ? [e.from, e.to] : [e.path]
+}
+
+function escapeRegExp(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function replaceText(text: string, e: Extract<EditT, { op: 'replace' }>, index: number) {
+  if (!e.isRegex) {
+    // literal: the replacement is inserted verbatim, "$&" and friends are not expanded
+    const re = new RegExp(escapeRegExp(e.search), e.all ? 'g' : '')
+    return text.replace(re, () => e.replace)
+  }
+  const unsafe = unsafePattern(e.search)
+  if (unsafe) throw httpError(400, 'invalid', { details: [{ path: ['edits', index, 'search'], message: unsafe }] })
+  if (text.length > MAX_REGEX_INPUT_LENGTH) {
+    throw httpError(400, 'invalid', { details: [{ path: ['edits', index, 'isRegex'], message: `${e.path} is longer than ${MAX_REGEX_INPUT_LENGTH} characters; use a literal search` }] })
+  }
+  return text.replace(new RegExp(e.search, e.all ? 'g' : ''), e.replace)
+}
+
+function decodeContent(e: Extract<EditT, { op: 'write' }>) {
+  return Buffer.from(e.content, e.encoding === 'base64' ? 'base64' : 'utf8')
+}
+
+/**
+ * Applies `edits` in order on top of what `load` returns, so later edits see
+ * earlier ones (write then replace, rename then chmod). Returns one entry
+ * per touched path plus the indexes of edits that changed nothing.
+ */
+export async function computeChanges(edits: EditT[], load: FileLoader) {
+  const files = new Map<string, FileChange>()
+  const noops: number[] = []
+
+  async function file(path: string) {
+    let f = files.get(path)
+    if (!f) {
+      const cur = await load(path)
+      f = { path, before: cur?.content ?? null, beforeMode: cur?.mode ?? null, after: cur?.content ?? null, mode: cur?.mode ?? '100644' }
+      files.set(path, f)
+    }
+    return f
+  }
+
+  for (const [i, e] of edits.entries()) {
+    if (e.op === 'rename') {
+      const src = await file(e.from)
+      const dst = await file(e.to)
+      if (!src.after) throw httpError(422, 'file_not_found', { path: e.from, edit: i })
+      if (dst.after) throw httpError(409, 'file_exists', { path: e.to, edit: i })
+      dst.after = src.after
+      dst.mode = src.mode
+      src.after = null
+      continue
+    }
+
+    const f = await file(e.path)
+    const prev = f.after
+    const prevMode = f.mode
+    if (e.op === 'write') {
+      const content = decodeContent(e)
+      if (e.mode === 'create' && f.after) throw httpError(409, 'file_exists', { path: e.path, edit: i })
+      f.after = e.mode === 'append' && f.after ? Buffer.concat([f.after, content]) : content
+    } else if (e.op === 'replace') {
+      // nothing to do on a missing file
+      if (f.after) {
+        const text = f.after.toString('utf8')
+        const out = replaceText(text, e, i)
+        if (out !== text) f.after = Buffer.from(out, 'utf8')
+      }
+    } else if (e.op === 'delete') {
+      f.after = null
+    } else if (e.op === 'chmod') {
+      if (!f.after) throw httpError(422, 'file_not_found', { path: e.path, edit: i })
+      f.mode = e.mode
+    }
+    const same = prev === f.after || (!!prev && !!f.after && prev.equals(f.after))
+    if (same && prevMode === f.mode) noops.push(i)
+  }
+  return { files: Array.from(files.values()), noops }
+}
+
+/** Whether the path ends up different from where it started */
+export function isChanged(f: FileChange) {
+  if (!f.before || !f.after) return f.before !== f.after
+  return !f.before.equals(f.after) || f.beforeMode !== f.mode
+}
+
+/** True when the bytes survive a utf8 round-trip, i.e. can be sent as inline tree content */
+export function isUtf8Text(buf: Buffer) {
+  return Buffer.from(buf.toString('utf8'), 'utf8').equals(buf)
+}
@@ -16,14 +16,27 @@ export const ENV = {
     if (!pem) throw new Error('Provide PRIVATE_KEY or PRIVATE_KEY_BASE64')
     return pem.replace(/\\n/g, '\n')
   })(),
-  INSTALLATION_ID: Number(need('INSTALLATION_ID')),
 
   // Defaults for target repo (can be overridden per request)
   REPO_OWNER: process.env.REPO_OWNER || '',
   REPO_NAME: process.env.REPO_NAME || '',
 
-  // API auth
-  BUTLER_TOKEN: need('BUTLER_TOKEN'),
+  // Repos Butler may act on, comma-separated globs ("my-org/*,other-org/app"); deny wins.
+  // Unset allowlist = only REPO_OWNER/REPO_NAME.
+  REPO_ALLOWLIST: (process.env.REPO_ALLOWLIST || (process.env.REPO_OWNER && process.env.REPO_NAME ? `${process.env.REPO_OWNER}/${process.env.REPO_NAME}` : ''))
+    .split(',').map(s => s.trim()).filter(Boolean),
+  REPO_DENYLIST: (process.env.REPO_DENYLIST || '').split(',').map(s => s.trim()).filter(Boolean),
+
+  // API auth: named, scoped keys (BUTLER_KEYS_FILE) and/or the legacy shared BUTLER_TOKEN
+  BUTLER_KEYS_FILE: process.env.BUTLER_KEYS_FILE || '',
+  BUTLER_TOKEN: process.env.BUTLER_KEYS_FILE ? (process.env.BUTLER_TOKEN || '') : need('BUTLER_TOKEN'),
+
+  // runChecks: how often and how long Butler follows CI on the PRs it opens
+  CHECKS_POLL_SECONDS: Number(process.env.CHECKS_POLL_SECONDS || 30),
+  CHECKS_TIMEOUT_MINUTES: Number(process.env.CHECKS_TIMEOUT_MINUTES || 60),
+
+  // HMAC secret configured on the GitHub App / repo webhook (POST /webhooks/github)
+  GITHUB_WEBHOOK_SECRET: process.env.GITHUB_WEBHOOK_SECRET || '',
 
   // Extra approval required to edit .github/workflows/*
   // When set, callers MUST send header: X-Butler-Approve-Workflows: <WORKFLOW_EDIT_KEY>
@@ -32,15 +45,55 @@ export const ENV = {
   // Safety limits
   MAX_EDIT_COUNT: Number(process.env.MAX_EDIT_COUNT || 25),
   MAX_FILE_SIZE_BYTES: Number(process.env.MAX_FILE_SIZE_BYTES || 200000),
+  MAX_PAYLOAD_BYTES: Number(process.env.MAX_PAYLOAD_BYTES || 1000000),
 
   // Optional tool configs (staging first)
   SUPABASE_URL: process.env.SUPABASE_URL || '',
   SUPABASE_ANON_KEY: process.env.SUPABASE_ANON_KEY || '',
   SUPABASE_SERVICE_ROLE_KEY_STAGING: process.env.SUPABASE_SERVICE_ROLE_KEY_STAGING || '',
   SUPABASE_SERVICE_ROLE_KEY_PROD: process.env.SUPABASE_SERVICE_ROLE_KEY_PROD || '',
+  // Stripe: separate keys per mode; policy actions carry the mode ("read_connect_account:test")
+  STRIPE_SECRET_KEY_TEST: process.env.STRIPE_SECRET_KEY_TEST || '',
+  STRIPE_SECRET_KEY_LIVE: process.env.STRIPE_SECRET_KEY_LIVE || '',
+  STRIPE_API_URL: (process.env.STRIPE_API_URL || 'https://api.stripe.com').replace(/\/+$/, ''),
+  STRIPE_API_VERSION: process.env.STRIPE_API_VERSION || '2024-06-20',
+
+  // Management API (deploy_function, set_function_env); point SUPABASE_API_URL at scripts/supabase-mock.mjs locally
+  SUPABASE_API_URL: (process.env.SUPABASE_API_URL || 'https://api.supabase.com').replace(/\/+$/, ''),
+  SUPABASE_ACCESS_TOKEN: process.env.SUPABASE_ACCESS_TOKEN || '',
+  SUPABASE_PROJECT_REF_STAGING: process.env.SUPABASE_PROJECT_REF_STAGING || '',
+  SUPABASE_PROJECT_REF_PROD: process.env.SUPABASE_PROJECT_REF_PROD || '',
+  // Postgres connection strings for supabase.sql_migrate, one database per env
+  SUPABASE_DB_URL_STAGING: process.env.SUPABASE_DB_URL_STAGING || '',
+  SUPABASE_DB_URL_PROD: process.env.SUPABASE_DB_URL_PROD || '',
+  // Schemas served by the Supabase API; new tables there must enable RLS (migration lint)
+  SUPABASE_EXPOSED_SCHEMAS: (process.env.SUPABASE_EXPOSED_SCHEMAS || 'public').split(',').map(s => s.trim()).filter(Boolean),
 
   RESEND_API_KEY_STAGING: process.env.RESEND_API_KEY_STAGING || '',
   RESEND_API_KEY_PROD: process.env.RESEND_API_KEY_PROD || '',
 
-  VERCEL_DEPLOY_HOOK_URL: process.env.VERCEL_DEPLOY_HOOK_URL || ''
+  // deploy.create_preview: Vercel deployments from the GitHub source, Render deploys of a service
+  VERCEL_TOKEN: process.env.VERCEL_TOKEN || '',
+  VERCEL_PROJECT: process.env.VERCEL_PROJECT || '',
+  VERCEL_TEAM_ID: process.env.VERCEL_TEAM_ID || '',
+  VERCEL_API_URL: (process.env.VERCEL_API_URL || 'https://api.vercel.com').replace(/\/+$/, ''),
+  RENDER_API_KEY: process.env.RENDER_API_KEY || '',
+  RENDER_SERVICE_ID: process.env.RENDER_SERVICE_ID || '',
+  // workspace id (tea-xxxx), needed only for build log excerpts
+  RENDER_OWNER_ID: process.env.RENDER_OWNER_ID || '',
+  RENDER_API_URL: (process.env.RENDER_API_URL || 'https://api.render.com').replace(/\/+$/, ''),
+  // how long create_preview waits in the request, then how often / how long it keeps polling in the background
+  PREVIEW_WAIT_SECONDS: Number(process.env.PREVIEW_WAIT_SECONDS || 10),
+  PREVIEW_POLL_SECONDS: Number(process.env.PREVIEW_POLL_SECONDS || 15),
+  PREVIEW_TIMEOUT_MINUTES: Number(process.env.PREVIEW_TIMEOUT_MINUTES || 30),
+
+  // /plan backend: 'template' (deterministic, offline) or 'http' (LLM service at PLANNER_URL)
+  PLANNER: process.env.PLANNER || 'template',
+  PLANNER_URL: process.env.PLANNER_URL || '',
+  PLANNER_API_KEY: process.env.PLANNER_API_KEY || '',
+
+  // Local state (approvals, plans, PRs) is kept as JSON files here
+  DATA_DIR: process.env.BUTLER_DATA_DIR || 'data',
+  // Hash-chained JSONL audit trail; defaults to <DATA_DIR>/audit.jsonl
+  AUDIT_LOG_FILE: process.env.AUDIT_LOG_FILE || ''
 }
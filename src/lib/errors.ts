@@ -0,0 +1,13 @@
+/**
+ * Error carrying an HTTP status and a machine-readable code. The JSON error
+ * handler in index.ts replies with `{ ok: false, error: code, ...details }`.
+ */
+export type HttpError = Error & { status: number, code: string, details: Record<string, any> }
+
+export function httpError(status: number, code: string, details: Record<string, any> = {}): HttpError {
+  return Object.assign(new Error(code), { status, code, details })
+}
+
+export function isHttpError(err: unknown): err is HttpError {
+  return !!err && typeof err === 'object' && typeof (err as any).status === 'number' && typeof (err as any).code === 'string'
+}
@@ -1,12 +1,68 @@
 import { Octokit } from 'octokit'
 import { createAppAuth } from '@octokit/auth-app'
 import { ENV } from './env'
+import { httpError } from './errors'
+import { matchesGlob } from './allowlist'
+import { assertNoSecrets, scanText, type SecretAllow } from './secrets'
 
-export function ghClient(installationId = ENV.INSTALLATION_ID) {
-  return new Octokit({
-    authStrategy: createAppAuth,
-    auth: { appId: ENV.APP_ID, privateKey: ENV.PRIVATE_KEY, installationId }
-  })
+/** Throws 403 repo_not_allowed unless owner/repo is on REPO_ALLOWLIST and not on REPO_DENYLIST */
+export function assertRepoAllowed(owner: string, repo: string) {
+  const full = `${owner}/${repo}`
+  if (matchesGlob(full, ENV.REPO_DENYLIST) || !matchesGlob(full, ENV.REPO_ALLOWLIST)) {
+    throw httpError(403, 'repo_not_allowed', { repo: full })
+  }
+}
+
+// App-level (JWT) auth; used to find installations and mint installation tokens
+const appAuth = createAppAuth({ appId: ENV.APP_ID, privateKey: ENV.PRIVATE_KEY })
+const appClient = new Octokit({ authStrategy: createAppAuth, auth: { appId: ENV.APP_ID, privateKey: ENV.PRIVATE_KEY } })
+
+const INSTALLATION_TTL_MS = 10 * 60 * 1000
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000
+const installations = new Map<string, { id: number, at: number }>()
+const clients = new Map<number, { gh: Octokit, expiresAt: number }>()
+
+/** Installation id for a repo via apps.getRepoInstallation, cached briefly (repos can move between installations) */
+export async function installationFor(owner: string, repo: string): Promise<number> {
+  const key = `${owner}/${repo}`.toLowerCase()
+  const hit = installations.get(key)
+  if (hit && Date.now() - hit.at < INSTALLATION_TTL_MS) return hit.id
+  try {
+    const { data } = await appClient.rest.apps.getRepoInstallation({ owner, repo })
+    installations.set(key, { id: data.id, at: Date.now() })
+    return data.id
+  } catch (err: any) {
+    if (err?.status === 404) throw httpError(404, 'app_not_installed', { repo: `${owner}/${repo}` })
+    throw err
+  }
+}
+
+/** Octokit on a cached installation token, re-minted shortly before it expires */
+async function installationClient(installationId: number): Promise<Octokit> {
+  const hit = clients.get(installationId)
+  if (hit && hit.expiresAt - Date.now() > TOKEN_REFRESH_MARGIN_MS) return hit.gh
+  const { token, expiresAt } = await appAuth({ type: 'installation', installationId })
+  const gh = new Octokit({ auth: token })
+  clients.set(installationId, { gh, expiresAt: Date.parse(expiresAt) })
+  return gh
+}
+
+/** Client for the installation that covers owner/repo, after the repo allow/deny check */
+export async function clientForRepo(owner: string, repo: string): Promise<Octokit> {
+  assertRepoAllowed(owner, repo)
+  return installationClient(await installationFor(owner, repo))
+}
+const DEFAULT_BRANCH_TTL_MS = 5 * 60 * 1000
+const defaultBranches = new Map<string, { name: string, at: number }>()
+
+/** The repo's default branch as GitHub reports it, cached for a few minutes */
+export async function defaultBranch(gh: any, owner: string, repo: string): Promise<string> {
+  const key = `${owner}/${repo}`
+  const hit = defaultBranches.get(key)
+  if (hit && Date.now() - hit.at < DEFAULT_BRANCH_TTL_MS) return hit.name
+  const { data } = await gh.rest.repos.get({ owner, repo })
+  defaultBranches.set(key, { name: data.default_branch, at: Date.now() })
+  return data.default_branch
 }
 export async function mainSha(gh: any, owner: string, repo: string, branch='main') {
   const { data } = await gh.rest.repos.getBranch({ owner, repo, branch }); return data.commit.sha
@@ -14,14 +70,19 @@ export async function mainSha(gh: any, owner: string, repo: string, branch='main
 export async function newBranch(gh: any, owner: string, repo: string, fromSha: string, name: string) {
   await gh.rest.git.createRef({ owner, repo, ref: `refs/heads/${name}`, sha: fromSha })
 }
-export async function getFile(gh: any, owner: string, repo: string, path: string) {
-  try { const { data } = await gh.rest.repos.getContent({ owner, repo, path }); return data as any } catch { return null }
+/** Returns null when the file does not exist; other API errors are rethrown */
+export async function getFile(gh: any, owner: string, repo: string, path: string, ref?: string) {
+  try { const { data } = await gh.rest.repos.getContent({ owner, repo, path, ref }); return data as any } catch (err: any) {
+    if (err?.status === 404) return null
+    throw err
+  }
 }
 export function decode(file: any) {
   if (!('content' in file)) return ''; return Buffer.from(file.content, 'base64').toString('utf8')
 }
-export async function upsert(gh: any, owner: string, repo: string, branch: string, path: string, content: string, msg: string) {
-  const existing = await getFile(gh, owner, repo, path)
+export async function upsert(gh: any, owner: string, repo: string, branch: string, path: string, content: string, msg: string, secretsAllow: SecretAllow[] = []) {
+  const existing = await getFile(gh, owner, repo, path, branch)
+  assertNoSecrets(scanText(path, content, existing ? decode(existing) : ''), secretsAllow)
   const sha = existing && existing.sha
   const b64 = Buffer.from(content, 'utf8').toString('base64')
   await gh.rest.repos.createOrUpdateFileContents({ owner, repo, path, branch, message: msg, content: b64, sha })
@@ -29,3 +90,50 @@ export async function upsert(gh: any, owner: string, repo: string, branch: strin
 export async function openPR(gh: any, owner: string, repo: string, head: string, base='main', title: string, body: string) {
   const pr = await gh.rest.pulls.create({ owner, repo, head, base, title, body }); return pr.data.html_url
 }
+
+/**
+ * Reads blobs (content + mode) out of one git tree, e.g. a commit's tree.
+ * Walks one directory level per call and caches listings, so reads are pinned to that tree.
+ */
+export function treeReader(gh: any, owner: string, repo: string, rootTree: string) {
+  const listings = new Map<string, Promise<any[]>>()
+  function list(sha: string) {
+    if (!listings.has(sha)) listings.set(sha, gh.rest.git.getTree({ owner, repo, tree_sha: sha }).then((r: any) => r.data.tree))
+    return listings.get(sha)!
+  }
+  async function entry(path: string): Promise<{ path: string, mode: string, type: string, sha: string } | null> {
+    const parts = path.split('/')
+    let sha = rootTree
+    for (const [i, name] of parts.entries()) {
+      const hit = (await list(sha)).find(t => t.path === name)
+      if (!hit) return null
+      if (i === parts.length - 1) return hit
+      if (hit.type !== 'tree') return null
+      sha = hit.sha
+    }
+    return null
+  }
+  async function read(path: string): Promise<{ content: Buffer, mode: string } | null> {
+    const e = await entry(path)
+    if (!e) return null
+    if (e.type !== 'blob') throw httpError(422, 'not_a_file', { path })
+    const blob = await gh.rest.git.getBlob({ owner, repo, file_sha: e.sha })
+    return { content: Buffer.from(blob.data.content, 'base64'), mode: e.mode }
+  }
+  return { entry, read }
+}
+
+/** Every file under `folder` at `ref` (recursive), with repo-relative paths */
+export async function readFolder(gh: any, owner: string, repo: string, ref: string, folder: string): Promise<Array<{ path: string, content: Buffer }>> {
+  const prefix = folder.replace(/\/+$/, '') + '/'
+  const { data: commit } = await gh.rest.repos.getCommit({ owner, repo, ref })
+  const { data } = await gh.rest.git.getTree({ owner, repo, tree_sha: commit.commit.tree.sha, recursive: 'true' })
+  if (data.truncated) throw httpError(422, 'tree_too_large', { ref })
+  const blobs = data.tree.filter((t: any) => t.type === 'blob' && t.path.startsWith(prefix))
+  const out: Array<{ path: string, content: Buffer }> = []
+  for (const b of blobs) {
+    const blob = await gh.rest.git.getBlob({ owner, repo, file_sha: b.sha })
+    out.push({ path: b.path, content: Buffer.from(blob.data.content, 'base64') })
+  }
+  return out
+}
@@ -0,0 +1,71 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import fs from 'fs'
+import path from 'path'
+import { ENV } from './env'
+import { assertRepoScope, assertScope, authenticate, hashKey, type Caller } from './keys'
+
+const sha = (raw: string) => `sha256:${hashKey(raw).toString('hex')}`
+
+let written = 0
+// keys are cached by mtime, so each write gets its own
+function keysFile(keys: unknown[]) {
+  const file = path.join(ENV.DATA_DIR, 'keys.json')
+  fs.writeFileSync(file, JSON.stringify({ keys }))
+  fs.utimesSync(file, ++written, written)
+  ENV.BUTLER_KEYS_FILE = file
+}
+
+test('keys are looked up by hash and carry their scopes', () => {
+  keysFile([
+    { id: 'k1', name: 'ci', hash: sha('ci-secret'), repos: ['acme/app'], tools: ['github.*'], envs: ['staging'] },
+    { id: 'k2', name: 'ops', hash: sha('ops-secret') }
+  ])
+  assert.deepEqual(authenticate('ci-secret'), { keyId: 'k1', name: 'ci', repos: ['acme/app'], tools: ['github.*'], envs: ['staging'], legacy: false })
+  assert.deepEqual(authenticate('ops-secret'), { keyId: 'k2', name: 'ops', repos: ['*/*'], tools: ['*'], envs: ['staging'], legacy: false })
+  assert.equal(authenticate('sha256:' + hashKey('ci-secret').toString('hex')), null)
+  assert.equal(authenticate(''), null)
+})
+
+test('keys outside not_before / expires_at do not authenticate', () => {
+  const now = Date.parse('2026-01-01T00:00:00Z')
+  keysFile([
+    { id: 'old', name: 'ci', hash: sha('rotating'), expires_at: '2025-12-31T00:00:00Z' },
+    { id: 'new', name: 'ci', hash: sha('rotating'), not_before: '2025-12-01T00:00:00Z' },
+    { id: 'later', name: 'ci', hash: sha('future'), not_before: '2026-02-01T00:00:00Z' }
+  ])
+  assert.equal(authenticate('rotating', now)?.keyId, 'new')
+  assert.equal(authenticate('future', now), null)
+})
+
+test('tokens of any length are compared without throwing', () => {
+  keysFile([{ id: 'k1', name: 'ci', hash: sha('ci-secret') }])
+  for (const raw of ['x', 'ci-secre', 'ci-secret-', 'é'.repeat(10_000), '\u0000']) assert.equal(authenticate(raw), null)
+})
+
+test('a key hash that is not 32 bytes of hex is refused when the file loads', () => {
+  keysFile([{ id: 'k1', name: 'ci', hash: 'sha256:abcd' }])
+  assert.throws(() => authenticate('ci-secret'), /invalid BUTLER_KEYS_FILE: keys\.0\.hash/)
+})
+
+test('the legacy BUTLER_TOKEN still authenticates, after the named keys', () => {
+  keysFile([{ id: 'k1', name: 'ci', hash: sha('test-token') }])
+  assert.equal(authenticate('test-token')?.keyId, 'k1')
+  keysFile([])
+  assert.deepEqual(authenticate('test-token'), { keyId: 'legacy', name: 'butler-token', repos: ['*/*'], tools: ['*'], envs: ['staging', 'prod'], legacy: true })
+  ENV.BUTLER_KEYS_FILE = ''
+  assert.equal(authenticate('test-token')?.legacy, true)
+  assert.equal(authenticate('other-token'), null)
+})
+
+test('scope checks deny by repo, tool and env', () => {
+  const caller: Caller = { keyId: 'k1', name: 'ci', repos: ['acme/*'], tools: ['github.*', 'smoke.run'], envs: ['staging'], legacy: false }
+  assert.doesNotThrow(() => assertScope(caller, 'acme/app', 'github', 'open_pr', 'staging'))
+  assert.doesNotThrow(() => assertScope(caller, 'acme/web', 'smoke', 'run', 'staging'))
+  const denied = (fn: () => void) => assert.throws(fn, (err: any) => err.status === 403 && err.code === 'scope_denied')
+  denied(() => assertRepoScope(caller, 'other/app'))
+  denied(() => assertScope(caller, 'other/app', 'github', 'open_pr', 'staging'))
+  denied(() => assertScope(caller, 'acme/app', 'supabase', 'migrate', 'staging'))
+  denied(() => assertScope(caller, 'acme/app', 'smoke', 'run_all', 'staging'))
+  denied(() => assertScope(caller, 'acme/app', 'github', 'open_pr', 'prod'))
+})
@@ -0,0 +1,87 @@
+import crypto from 'crypto'
+import fs from 'fs'
+import { z } from 'zod'
+import { parse as parseYaml } from 'yaml'
+import { ENV } from './env'
+import { httpError } from './errors'
+import { matchesGlob } from './allowlist'
+
+/**
+ * Who is calling. Attached to res.locals.caller by requireButlerToken and
+ * carried into policy checks, approvals and logs.
+ */
+export type Caller = {
+  keyId: string
+  name: string
+  repos: string[]   // "owner/name" globs
+  tools: string[]   // "tool.action" globs, e.g. "github.*"
+  envs: string[]
+  // true for the shared BUTLER_TOKEN, which cannot tell callers apart
+  legacy: boolean
+}
+
+// BUTLER_KEYS_FILE (YAML or JSON): { keys: [ { id, name, hash, repos, tools, envs } ] }. Several keys may share a name,
+// which is how rotation works: add the new key, let the old one run out via expires_at.
+const KeySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  hash: z.string().regex(/^sha256:[0-9a-f]{64}$/, 'Expected sha256:<64 hex chars>'),
+  repos: z.array(z.string()).default(['*/*']),
+  tools: z.array(z.string()).default(['*']),
+  envs: z.array(z.enum(['staging', 'prod'])).default(['staging']),
+  not_before: z.string().datetime().optional(),
+  expires_at: z.string().datetime().optional()
+}).strict()
+const KeysFile = z.object({ keys: z.array(KeySchema) }).strict()
+type KeyT = z.infer<typeof KeySchema>
+
+let cache: { mtimeMs: number, keys: KeyT[] } | null = null
+
+/** Keys from BUTLER_KEYS_FILE, re-read whenever the file changes */
+function loadKeys(): KeyT[] {
+  if (!ENV.BUTLER_KEYS_FILE) return []
+  const { mtimeMs } = fs.statSync(ENV.BUTLER_KEYS_FILE)
+  if (cache && cache.mtimeMs === mtimeMs) return cache.keys
+  const parsed = KeysFile.safeParse(parseYaml(fs.readFileSync(ENV.BUTLER_KEYS_FILE, 'utf8')))
+  if (!parsed.success) throw new Error(`invalid BUTLER_KEYS_FILE: ${parsed.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; ')}`)
+  cache = { mtimeMs, keys: parsed.data.keys }
+  return cache.keys
+}
+
+export function hashKey(raw: string) {
+  return crypto.createHash('sha256').update(raw, 'utf8').digest()
+}
+
+function sameDigest(a: Buffer, b: Buffer) {
+  return a.length === b.length && crypto.timingSafeEqual(a, b)
+}
+
+/** Resolves the presented X-Butler-Token to a caller, or null. Every candidate is compared in constant time. */
+export function authenticate(raw: string, now = Date.now()): Caller | null {
+  if (!raw) return null
+  const digest = hashKey(raw)
+  let found: Caller | null = null
+
+  for (const k of loadKeys()) {
+    const match = sameDigest(digest, Buffer.from(k.hash.slice('sha256:'.length), 'hex'))
+    const live = (!k.not_before || Date.parse(k.not_before) <= now) && (!k.expires_at || Date.parse(k.expires_at) > now)
+    if (match && live && !found) found = { keyId: k.id, name: k.name, repos: k.repos, tools: k.tools, envs: k.envs, legacy: false }
+  }
+  if (!found && ENV.BUTLER_TOKEN && sameDigest(digest, hashKey(ENV.BUTLER_TOKEN))) {
+    found = { keyId: 'legacy', name: 'butler-token', repos: ['*/*'], tools: ['*'], envs: ['staging', 'prod'], legacy: true }
+  }
+  return found
+}
+
+/** Throws 403 scope_denied unless the caller's key covers the repo */
+export function assertRepoScope(caller: Caller, repo: string) {
+  if (!matchesGlob(repo, caller.repos)) throw httpError(403, 'scope_denied', { caller: caller.name, repo })
+}
+
+/** Throws 403 scope_denied unless the caller's key covers repo, tool.action and env */
+export function assertScope(caller: Caller, repo: string, tool: string, action: string, env: string) {
+  assertRepoScope(caller, repo)
+  if (!matchesGlob(`${tool}.${action}`, caller.tools) || !caller.envs.includes(env)) {
+    throw httpError(403, 'scope_denied', { caller: caller.name, repo, tool, action, env })
+  }
+}
@@ -0,0 +1,70 @@
+import { ENV } from './env'
+import { httpError } from './errors'
+import { editPaths, isUtf8Text, type FileChange } from './edits'
+import type { EditT } from '../types'
+
+export type LimitIssue = { path: (string | number)[], message: string }
+
+// Paths that must stay text: binary (NUL bytes / invalid utf8) content is refused here
+const TEXT_ONLY = /\.(ts|tsx|js|jsx|mjs|cjs|json|md|sql|ya?ml|toml|txt|css|html|sh)$/i
+
+export function isTextOnlyPath(p: string) {
+  return TEXT_ONLY.test(p)
+}
+
+function isBinary(buf: Buffer) {
+  return buf.includes(0) || !isUtf8Text(buf)
+}
+
+/** Problems with one file's resulting content (size, binary in a text-only path) */
+export function checkFile(p: string, content: Buffer): string[] {
+  const problems: string[] = []
+  if (content.length > ENV.MAX_FILE_SIZE_BYTES) {
+    problems.push(`${p} would be ${content.length} bytes; MAX_FILE_SIZE_BYTES is ${ENV.MAX_FILE_SIZE_BYTES}`)
+  }
+  if (isTextOnlyPath(p) && isBinary(content)) problems.push(`${p} is text-only but the content is binary`)
+  return problems
+}
+
+/** Checks that need only the request: edit count and total payload size */
+export function checkBatch(edits: EditT[]): LimitIssue[] {
+  const issues: LimitIssue[] = []
+  if (edits.length > ENV.MAX_EDIT_COUNT) {
+    issues.push({ path: ['edits'], message: `${edits.length} edits; MAX_EDIT_COUNT is ${ENV.MAX_EDIT_COUNT}` })
+  }
+  let total = 0
+  edits.forEach((e, i) => {
+    if (e.op === 'write') {
+      const bytes = Buffer.byteLength(e.content, e.encoding === 'base64' ? 'base64' : 'utf8')
+      total += bytes
+      if (bytes > ENV.MAX_FILE_SIZE_BYTES) {
+        issues.push({ path: ['edits', i, 'content'], message: `${bytes} bytes; MAX_FILE_SIZE_BYTES is ${ENV.MAX_FILE_SIZE_BYTES}` })
+      }
+    } else if (e.op === 'replace') {
+      total += Buffer.byteLength(e.search) + Buffer.byteLength(e.replace)
+    }
+  })
+  if (total > ENV.MAX_PAYLOAD_BYTES) {
+    issues.push({ path: ['edits'], message: `${total} bytes of content; MAX_PAYLOAD_BYTES is ${ENV.MAX_PAYLOAD_BYTES}` })
+  }
+  return issues
+}
+
+/** Checks on what the batch produces, reported against the last edit that touched each file */
+export function checkResults(files: FileChange[], edits: EditT[]): LimitIssue[] {
+  const issues: LimitIssue[] = []
+  for (const f of files) {
+    if (!f.after) continue
+    const problems = checkFile(f.path, f.after)
+    if (!problems.length) continue
+    let last = -1
+    edits.forEach((e, i) => { if (editPaths(e).includes(f.path)) last = i })
+    for (const message of problems) issues.push({ path: ['edits', last], message })
+  }
+  return issues
+}
+
+/** Throws the same `400 { error: "invalid", details }` /apply uses for schema errors */
+export function assertLimits(issues: LimitIssue[]) {
+  if (issues.length) throw httpError(400, 'invalid', { details: issues })
+}
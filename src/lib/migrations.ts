@@ -0,0 +1,162 @@
+import crypto from 'crypto'
+import { Client } from 'pg'
+import { ENV } from './env'
+import { clientForRepo, decode, getFile } from './github'
+
+export type MigrationEnv = 'staging' | 'prod'
+
+export type Migration = {
+  version: string       // e.g. "20250816120000"; ordering is the caller's business
+  name?: string
+  up: string
+  down?: string
+}
+
+export type MigrationArgs = {
+  owner: string, repo: string, branch: string, path?: string
+  version?: string, name?: string, sql?: string, down?: string
+}
+
+/**
+ * Fills sql, down, version and name from `path` on `branch` (e.g.
+ * supabase/migrations/20250816120000_add_orders.sql plus an optional sibling
+ * .down.sql); values already given win.
+ */
+export async function resolveMigration(a: MigrationArgs): Promise<MigrationArgs> {
+  if (!a.path) return a
+  let { sql, down, version, name } = a
+  const gh = await clientForRepo(a.owner, a.repo)
+  if (sql === undefined) {
+    const file = await getFile(gh, a.owner, a.repo, a.path, a.branch)
+    if (!file) throw new Error(`file_not_found: ${a.path}@${a.branch}`)
+    sql = decode(file)
+  }
+  if (down === undefined) {
+    const downFile = await getFile(gh, a.owner, a.repo, a.path.replace(/\.sql$/, '.down.sql'), a.branch)
+    if (downFile) down = decode(downFile)
+  }
+  const m = /^([0-9A-Za-z.-]+?)(?:_(.+))?\.sql$/.exec(a.path.split('/').pop() || '')
+  return { ...a, sql, down, version: version ?? m?.[1], name: name ?? m?.[2] }
+}
+
+export type AppliedMigration = {
+  version: string
+  name: string | null
+  checksum: string
+  down_sql: string | null
+  applied_at: string
+  applied_by: string | null
+}
+
+// Separate from supabase_migrations.schema_migrations so the Supabase CLI's own history is untouched
+const TABLE = 'public.butler_migrations'
+const VERSION = /^[0-9A-Za-z_.-]{1,100}$/
+
+/** sha256 of the SQL with line endings normalized, so a CRLF checkout does not count as an edit */
+export function checksum(sql: string) {
+  return crypto.createHash('sha256').update(sql.replace(/\r\n/g, '\n').trim()).digest('hex')
+}
+
+export function dbUrl(env: MigrationEnv) {
+  const url = env === 'prod' ? ENV.SUPABASE_DB_URL_PROD : ENV.SUPABASE_DB_URL_STAGING
+  if (!url) throw new Error(`no_database_url: set SUPABASE_DB_URL_${env.toUpperCase()}`)
+  return url
+}
+
+async function withClient<T>(env: MigrationEnv, fn: (c: Client) => Promise<T>): Promise<T> {
+  const c = new Client({ connectionString: dbUrl(env) })
+  await c.connect()
+  try {
+    return await fn(c)
+  } finally {
+    await c.end()
+  }
+}
+
+/** BEGIN, serialize against other Butler migrations on this database, run, COMMIT (ROLLBACK on any error) */
+async function inTransaction<T>(c: Client, fn: () => Promise<T>): Promise<T> {
+  await c.query('BEGIN')
+  try {
+    await c.query(`SELECT pg_advisory_xact_lock(hashtext('${TABLE}'))`)
+    await c.query(`CREATE TABLE IF NOT EXISTS ${TABLE} (
+      version text PRIMARY KEY,
+      name text,
+      checksum text NOT NULL,
+      down_sql text,
+      applied_at timestamptz NOT NULL DEFAULT now(),
+      applied_by text
+    )`)
+    const out = await fn()
+    await c.query('COMMIT')
+    return out
+  } catch (err) {
+    await c.query('ROLLBACK').catch(() => undefined)
+    throw err
+  }
+}
+
+async function appliedRow(c: Client, version: string): Promise<AppliedMigration | null> {
+  const { rows } = await c.query(`SELECT * FROM ${TABLE} WHERE version = $1`, [version])
+  return rows[0] ?? null
+}
+
+/** The applied record for `version` on `env`, or null (also when the versions table does not exist yet) */
+export async function migrationStatus(env: MigrationEnv, version: string): Promise<AppliedMigration | null> {
+  return withClient(env, async c => {
+    const { rows } = await c.query(`SELECT to_regclass('${TABLE}') AS t`)
+    return rows[0]?.t ? appliedRow(c, version) : null
+  })
+}
+
+/**
+ * Applies `m.up` in one transaction and records it. Re-running the same migration
+ * is a no-op; re-running an edited one (checksum differs) is refused. On prod, the
+ * same version and checksum must already be recorded on staging.
+ */
+export async function migrateUp(env: MigrationEnv, m: Migration, appliedBy: string) {
+  if (!VERSION.test(m.version)) throw new Error(`invalid_version: ${m.version}`)
+  const sum = checksum(m.up)
+
+  if (env === 'prod') {
+    const staged = await migrationStatus('staging', m.version)
+    if (!staged) throw new Error(`not_on_staging: migration ${m.version} must succeed on staging before prod`)
+    if (staged.checksum !== sum) {
+      throw new Error(`checksum_mismatch: migration ${m.version} differs from what staging ran (${staged.checksum.slice(0, 12)})`)
+    }
+  }
+
+  return withClient(env, c => inTransaction(c, async () => {
+    const row = await appliedRow(c, m.version)
+    if (row) {
+      if (row.checksum !== sum) {
+        throw new Error(`checksum_mismatch: migration ${m.version} was edited after it was applied on ${env} (${row.checksum.slice(0, 12)} applied, ${sum.slice(0, 12)} now)`)
+      }
+      return { ok: true, env, version: m.version, status: 'already_applied', checksum: sum, appliedAt: row.applied_at }
+    }
+    const t0 = Date.now()
+    await c.query(m.up)
+    await c.query(
+      `INSERT INTO ${TABLE} (version, name, checksum, down_sql, applied_by) VALUES ($1, $2, $3, $4, $5)`,
+      [m.version, m.name ?? null, sum, m.down ?? null, appliedBy]
+    )
+    return { ok: true, env, version: m.version, status: 'applied', checksum: sum, durationMs: Date.now() - t0 }
+  }))
+}
+
+/**
+ * Rolls `version` back with `down` (or the down script stored when it was applied)
+ * in one transaction and removes its record, so it can be applied again.
+ */
+export async function migrateDown(env: MigrationEnv, version: string, down: string | undefined) {
+  if (!VERSION.test(version)) throw new Error(`invalid_version: ${version}`)
+  return withClient(env, c => inTransaction(c, async () => {
+    const row = await appliedRow(c, version)
+    if (!row) throw new Error(`not_applied: migration ${version} is not recorded on ${env}`)
+    const sql = down ?? row.down_sql
+    if (!sql) throw new Error(`no_down_script: migration ${version} has no down script`)
+    const t0 = Date.now()
+    await c.query(sql)
+    await c.query(`DELETE FROM ${TABLE} WHERE version = $1`, [version])
+    return { ok: true, env, version, status: 'rolled_back', durationMs: Date.now() - t0 }
+  }))
+}
@@ -0,0 +1,51 @@
+import crypto from 'crypto'
+import { fileStore } from './store'
+import { httpError } from './errors'
+
+export type StoredPlan = {
+  id: string
+  hash: string
+  createdAt: string
+  plan: {
+    title: string
+    summary: string
+    repo: { owner: string, name: string }
+    baseBranch: string
+    baseSha: string
+    branch: string
+    labels: string[]
+    edits: any[]
+    steps: any[]
+    [k: string]: any
+  }
+}
+
+const store = fileStore<StoredPlan>('plans')
+
+/** JSON with object keys sorted, so equal plans hash equally */
+function canonical(v: any): string {
+  if (Array.isArray(v)) return `[${v.map(canonical).join(',')}]`
+  if (v && typeof v === 'object') {
+    return `{${Object.keys(v).sort().filter(k => v[k] !== undefined).map(k => `${JSON.stringify(k)}:${canonical(v[k])}`).join(',')}}`
+  }
+  return JSON.stringify(v)
+}
+
+/** sha256 over what gets applied: target, base and the edits/steps themselves */
+export function planHash(plan: StoredPlan['plan']) {
+  const { repo, baseBranch, baseSha, edits, steps } = plan
+  return crypto.createHash('sha256').update(canonical({ repo, baseBranch, baseSha, edits, steps })).digest('hex')
+}
+
+export function savePlan(plan: StoredPlan['plan']): StoredPlan {
+  const id = crypto.randomUUID()
+  return store.put(id, { id, hash: planHash(plan), createdAt: new Date().toISOString(), plan })
+}
+
+/** Loads a plan and re-checks its hash, so a hand-edited store file cannot change what gets applied */
+export function getPlan(id: string): StoredPlan {
+  const rec = store.get(id)
+  if (!rec) throw httpError(404, 'plan_not_found', { planId: id })
+  if (planHash(rec.plan) !== rec.hash) throw httpError(409, 'plan_tampered', { planId: id })
+  return rec
+}
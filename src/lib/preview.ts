@@ -0,0 +1,50 @@
+import { createTwoFilesPatch, FILE_HEADERS_ONLY } from 'diff'
+import { isUtf8Text, type FileChange } from './edits'
+
+export type FilePreview = {
+  path: string
+  status: 'added' | 'modified' | 'deleted' | 'unchanged'
+  binary: boolean
+  bytesBefore: number | null
+  bytesAfter: number | null
+  modeBefore: string | null
+  mode: string | null
+  // unified diff; null for binary files
+  diff: string | null
+}
+
+function statusOf(f: FileChange): FilePreview['status'] {
+  if (!f.before && f.after) return 'added'
+  if (f.before && !f.after) return 'deleted'
+  if (f.before && f.after && (!f.before.equals(f.after) || f.beforeMode !== f.mode)) return 'modified'
+  return 'unchanged'
+}
+
+/** Per-file unified diff and sizes for the result of computeChanges() */
+export function previewChanges(files: FileChange[]): FilePreview[] {
+  return files.map(f => {
+    const binary = [f.before, f.after].some(b => !!b && !isUtf8Text(b))
+    const status = statusOf(f)
+    const diff = binary || status === 'unchanged'
+      ? null
+      : createTwoFilesPatch(
+        f.before ? `a/${f.path}` : '/dev/null',
+        f.after ? `b/${f.path}` : '/dev/null',
+        f.before ? f.before.toString('utf8') : '',
+        f.after ? f.after.toString('utf8') : '',
+        undefined,
+        undefined,
+        { context: 3, headerOptions: FILE_HEADERS_ONLY }
+      )
+    return {
+      path: f.path,
+      status,
+      binary,
+      bytesBefore: f.before ? f.before.length : null,
+      bytesAfter: f.after ? f.after.length : null,
+      modeBefore: f.beforeMode,
+      mode: f.after ? f.mode : null,
+      diff
+    }
+  })
+}
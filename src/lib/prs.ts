@@ -0,0 +1,160 @@
+import { fileStore } from './store'
+
+export type CheckState = {
+  name: string
+  kind: 'check_run' | 'check_suite'
+  status: string                // queued | in_progress | completed
+  conclusion: string | null     // success | failure | neutral | cancelled | timed_out | etc.
+  url?: string
+  updatedAt: string
+}
+
+export type ChecksSummary = 'none' | 'pending' | 'success' | 'failure'
+
+/** What Butler knows about a PR it opened, kept current by GitHub webhooks */
+export type PrRecord = {
+  repo: string                  // owner/name
+  number: number
+  url: string
+  title: string
+  branch: string
+  baseBranch: string
+  headSha: string
+  state: 'open' | 'closed' | 'merged'
+  createdBy: string             // API key name of the /apply caller
+  planId?: string               // set when the PR was applied from a stored plan
+  createdAt: string
+  updatedAt: string
+  mergedAt?: string
+  // keyed by check name, for the current headSha only
+  checks: Record<string, CheckState>
+  checksSummary: ChecksSummary
+  reviews: Array<{ id: number, by: string, state: string, body?: string, at: string }>
+  comments: Array<{ id: number, by: string, body: string, url?: string, at: string }>
+  lastEvent?: { event: string, action?: string, at: string }
+}
+
+const MAX_HISTORY = 50
+const FAILED = new Set(['failure', 'timed_out', 'cancelled', 'action_required', 'startup_failure', 'stale'])
+
+const store = fileStore<PrRecord>('prs')
+const keyOf = (repo: string, n: number) => `${repo}#${n}`
+
+export function getPr(repo: string, number: number) {
+  return store.get(keyOf(repo, number))
+}
+
+export function listPrs(repo?: string) {
+  return store.list().filter(p => !repo || p.repo === repo)
+}
+
+/** Called by /apply after it opens or updates a PR; keeps history when the PR is already tracked */
+export function trackPr(pr: Pick<PrRecord, 'repo' | 'number' | 'url' | 'title' | 'branch' | 'baseBranch' | 'headSha' | 'createdBy' | 'planId'>) {
+  const now = new Date().toISOString()
+  const prev = getPr(pr.repo, pr.number)
+  const rec: PrRecord = prev
+    ? { ...prev, ...pr, createdBy: prev.createdBy, updatedAt: now }
+    : { ...pr, state: 'open', createdAt: now, updatedAt: now, checks: {}, checksSummary: 'none', reviews: [], comments: [] }
+  if (prev && prev.headSha !== pr.headSha) resetChecks(rec)
+  return store.put(keyOf(rec.repo, rec.number), rec)
+}
+
+export function summarizeChecks(checks: Record<string, CheckState>): ChecksSummary {
+  const all = Object.values(checks)
+  if (all.length === 0) return 'none'
+  if (all.some(c => c.status === 'completed' && FAILED.has(c.conclusion || ''))) return 'failure'
+  if (all.some(c => c.status !== 'completed')) return 'pending'
+  return 'success'
+}
+
+function resetChecks(rec: PrRecord) {
+  rec.checks = {}
+  rec.checksSummary = 'none'
+}
+
+function keep<T>(list: T[], item: T) {
+  list.push(item)
+  if (list.length > MAX_HISTORY) list.splice(0, list.length - MAX_HISTORY)
+}
+
+/** Tracked PRs a webhook payload refers to: by number, or by head SHA for check events */
+function targets(event: string, p: any, repo: string): PrRecord[] {
+  if (event === 'pull_request' || event === 'pull_request_review') {
+    const pr = getPr(repo, p.pull_request?.number)
+    return pr ? [pr] : []
+  }
+  if (event === 'issue_comment') {
+    if (!p.issue?.pull_request) return []
+    const pr = getPr(repo, p.issue.number)
+    return pr ? [pr] : []
+  }
+  if (event === 'check_run' || event === 'check_suite') {
+    const body = p[event] || {}
+    const numbers: number[] = (body.pull_requests || []).map((x: any) => x.number)
+    const sha = body.head_sha
+    return listPrs(repo).filter(pr => numbers.includes(pr.number) || pr.headSha === sha)
+  }
+  return []
+}
+
+/**
+ * Folds one webhook delivery into the stored state of Butler-created PRs.
+ * PRs Butler did not open are ignored. Returns the records that changed.
+ */
+export function applyPrEvent(event: string, p: any): PrRecord[] {
+  const repo: string | undefined = p?.repository?.full_name
+  if (!repo) return []
+  const now = new Date().toISOString()
+  const updated: PrRecord[] = []
+
+  for (const rec of targets(event, p, repo)) {
+    switch (event) {
+      case 'pull_request': {
+        const pr = p.pull_request
+        if (pr.head?.sha && pr.head.sha !== rec.headSha) {
+          rec.headSha = pr.head.sha
+          resetChecks(rec)
+        }
+        rec.title = pr.title ?? rec.title
+        rec.state = pr.merged ? 'merged' : pr.state === 'closed' ? 'closed' : 'open'
+        if (pr.merged_at) rec.mergedAt = pr.merged_at
+        break
+      }
+      case 'check_run':
+      case 'check_suite': {
+        const c = p[event]
+        // late events for an older head commit must not overwrite the current picture
+        if (c.head_sha && c.head_sha !== rec.headSha) continue
+        const name = event === 'check_run' ? c.name : `suite:${c.app?.slug || c.app?.name || c.id}`
+        rec.checks[name] = {
+          name,
+          kind: event,
+          status: c.status,
+          conclusion: c.conclusion ?? null,
+          url: c.html_url || c.details_url || c.url,
+          updatedAt: now
+        }
+        rec.checksSummary = summarizeChecks(rec.checks)
+        break
+      }
+      case 'pull_request_review': {
+        const r = p.review
+        const i = rec.reviews.findIndex(x => x.id === r.id)
+        const review = { id: r.id, by: r.user?.login, state: String(r.state || '').toLowerCase(), body: r.body || undefined, at: r.submitted_at || now }
+        if (i >= 0) rec.reviews[i] = review
+        else keep(rec.reviews, review)
+        break
+      }
+      case 'issue_comment': {
+        const c = p.comment
+        rec.comments = rec.comments.filter(x => x.id !== c.id)
+        if (p.action !== 'deleted') keep(rec.comments, { id: c.id, by: c.user?.login, body: c.body, url: c.html_url, at: c.updated_at || c.created_at || now })
+        break
+      }
+    }
+    rec.lastEvent = { event, action: p.action, at: now }
+    rec.updatedAt = now
+    updated.push(store.put(keyOf(rec.repo, rec.number), rec))
+  }
+  return updated
+}
@@ -0,0 +1,67 @@
+// Caller-supplied patterns run on the event loop with no timeout, so they are vetted before use:
+// short, no backreferences and no quantified group that itself repeats (the classic (a+)+ shape)
+export const MAX_PATTERN_LENGTH = 500
+// text a caller's pattern may run over; kept well under MAX_FILE_SIZE_BYTES' default
+export const MAX_REGEX_INPUT_LENGTH = 200_000
+
+/** Why `pattern` may backtrack catastrophically (or does not compile); null when it is safe to run */
+export function unsafePattern(pattern: string, maxLength = MAX_PATTERN_LENGTH): string | null {
+  if (pattern.length > maxLength) return `pattern is longer than ${maxLength} characters`
+  try {
+    new RegExp(pattern)
+  } catch (err: any) {
+    return err?.message || String(err)
+  }
+  // per open group: whether anything inside it repeats
+  const groups: boolean[] = []
+  // the atom just closed was a group with a repeat inside
+  let repeatingGroup = false
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i]
+    if (c === '\\') {
+      const next = pattern[i + 1] ?? ''
+      if (/[1-9]/.test(next) || (next === 'k' && pattern[i + 2] === '<')) return 'backreferences are not allowed'
+      i++
+      repeatingGroup = false
+      continue
+    }
+    if (c === '[') {
+      // skip the class; "]" right after "[" or "[^" is literal
+      i += pattern[i + 1] === '^' ? 2 : 1
+      if (pattern[i] === ']') i++
+      while (i < pattern.length && pattern[i] !== ']') i += pattern[i] === '\\' ? 2 : 1
+      repeatingGroup = false
+      continue
+    }
+    if (c === '(') {
+      groups.push(false)
+      repeatingGroup = false
+      continue
+    }
+    if (c === ')') {
+      repeatingGroup = groups.pop() ?? false
+      // a repeat deep inside still repeats within every enclosing group
+      if (repeatingGroup && groups.length) groups[groups.length - 1] = true
+      continue
+    }
+    const repeat = repeatAt(pattern, i)
+    if (repeat) {
+      if (repeatingGroup) return 'nested quantifiers are not allowed'
+      if (groups.length) groups[groups.length - 1] = true
+      i += repeat - 1
+    }
+    repeatingGroup = false
+  }
+  return null
+}
+
+/** Length of an unbounded-or-multiple quantifier (*, +, {n,}, {n,m} with m > 1) at `i`, 0 when there is none */
+function repeatAt(pattern: string, i: number) {
+  const c = pattern[i]
+  if (c === '*' || c === '+') return 1
+  if (c !== '{') return 0
+  const m = /^\{(\d+)(,(\d*))?\}/.exec(pattern.slice(i))
+  if (!m) return 0
+  const max = m[2] === undefined ? Number(m[1]) : m[3] === '' ? Infinity : Number(m[3])
+  return max > 1 ? m[0].length : 0
+}
@@ -0,0 +1,211 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import http from 'http'
+import type { AddressInfo } from 'net'
+import { defaultPolicy, parsePolicy } from '../policy'
+import { applyApprovalsNeeded, approvalsNeeded, assertSqlUnchanged, prepareSteps, restoreSecrets, runSteps, sqlChecksums, withholdSecrets, workflowGate, writtenPaths } from './run'
+import { ENV } from './env'
+import type { Caller } from './keys'
+import type { ApprovalRecord } from './approvals'
+import type { RunReqT } from '../types'
+
+const run = (steps: RunReqT['steps']): RunReqT =>
+  ({ repo: 'acme/app', branch: 'butler/x', env: 'staging', dryRun: false, steps }) as RunReqT
+
+const withWorkflowApprovals = parsePolicy(`
+version: 1
+repos:
+  default:
+    tools:
+      github:
+        allow: [write_file]
+        approvals: [{ action: write_workflow, approvers: [alice] }]
+`)
+
+test('writtenPaths lists the paths of github.write_file steps only', () => {
+  const req = run([
+    { tool: 'github.write_file', args: { path: '.github/workflows/ci.yml', content: 'x' } },
+    { tool: 'supabase.sql_migrate', args: { path: 'supabase/migrations/1_a.sql' } },
+    { tool: 'github.write_file', args: { path: 'docs/a.md', content: 'y' } }
+  ])
+  assert.deepEqual(writtenPaths(req), ['.github/workflows/ci.yml', 'docs/a.md'])
+})
+
+test('workflowGate ignores non-workflow paths', () => {
+  assert.deepEqual(workflowGate(defaultPolicy(), 'acme/app', ['src/a.ts'], ''), [])
+})
+
+test('workflowGate requires WORKFLOW_EDIT_KEY when the policy has no write_workflow approvals', () => {
+  assert.throws(() => workflowGate(defaultPolicy(), 'acme/app', ['.github/workflows/ci.yml'], ''), { code: 'workflow_edit_blocked' })
+  assert.throws(() => workflowGate(defaultPolicy(), 'acme/app', ['.github/workflows/ci.yml'], 'wrong'), { code: 'workflow_edit_blocked' })
+  assert.deepEqual(workflowGate(defaultPolicy(), 'acme/app', ['.github/workflows/ci.yml'], process.env.WORKFLOW_EDIT_KEY!), [])
+})
+
+test('workflowGate returns the write_workflow requirement until an approval covers it', () => {
+  const [req] = workflowGate(withWorkflowApprovals, 'acme/app', ['.github/workflows/ci.yml'], process.env.WORKFLOW_EDIT_KEY!)
+  assert.equal(req.action, 'write_workflow')
+  assert.deepEqual(req.approvers, ['alice'])
+
+  const approval = {
+    status: 'executing',
+    requestedBy: { name: 'agent' },
+    requirements: [req],
+    approvals: [{ by: 'alice', at: new Date().toISOString() }]
+  } as unknown as ApprovalRecord
+  assert.deepEqual(workflowGate(withWorkflowApprovals, 'acme/app', ['.github/workflows/ci.yml'], '', approval), [])
+})
+
+test('prepareSteps lints inline SQL and refuses a step with nothing to lint', async () => {
+  const prepared = await prepareSteps(run([
+    { tool: 'github.write_file', args: { path: 'docs/a.md', content: 'y' } },
+    { tool: 'supabase.sql_migrate', args: { version: '1', sql: 'DROP TABLE orders' } }
+  ]))
+  assert.deepEqual(Array.from(prepared.keys()), [1])
+  assert.equal(prepared.get(1)!.risk.destructive, true)
+
+  await assert.rejects(prepareSteps(run([{ tool: 'supabase.sql_migrate', args: { version: '1' } }])), { status: 422, code: 'sql_unavailable' })
+})
+
+test('assertSqlUnchanged refuses a replay whose SQL differs from what was held', async () => {
+  const held = await prepareSteps(run([{ tool: 'supabase.sql_migrate', args: { version: '1', sql: 'ALTER TABLE orders ADD COLUMN a int' } }]))
+  const approval = { id: 'a1', sqlChecksums: sqlChecksums(held) } as unknown as ApprovalRecord
+  assert.doesNotThrow(() => assertSqlUnchanged(approval, held))
+
+  const edited = await prepareSteps(run([{ tool: 'supabase.sql_migrate', args: { version: '1', sql: 'DROP TABLE orders' } }]))
+  assert.throws(() => assertSqlUnchanged(approval, edited), { status: 409, code: 'sql_changed' })
+  assert.throws(() => assertSqlUnchanged({ id: 'a2' } as ApprovalRecord, held), { code: 'sql_changed' })
+})
+
+test('withholdSecrets redacts kv values for storage and restoreSecrets puts them back', () => {
+  const body = {
+    repo: 'acme/app',
+    steps: [
+      { tool: 'github.write_file', args: { path: 'docs/a.md', content: 'y' } },
+      { tool: 'supabase.set_function_env', args: { function: 'billing', kv: { STRIPE_KEY: 'sk_test_123', MODE: 'test' } } }
+    ]
+  }
+  const { payload, secrets } = withholdSecrets(body)
+  assert.deepEqual(payload.steps[1].args, { function: 'billing', kv: { STRIPE_KEY: '[redacted]', MODE: '[redacted]' } })
+  assert.ok(!JSON.stringify(payload).includes('sk_test_123'))
+  assert.deepEqual(payload.steps[0], body.steps[0])
+  assert.deepEqual(restoreSecrets(payload, secrets), body)
+
+  assert.deepEqual(withholdSecrets({ steps: [body.steps[0]] }), { payload: { steps: [body.steps[0]] } })
+})
+
+const liveStripe = parsePolicy(`
+version: 1
+repos:
+  default:
+    tools:
+      stripe:
+        allow: [read_connect_account:live, list_failed_payouts:live, create_product:live, create_price:live]
+        approvals: [{ action: create_price:live, approvers: [alice] }]
+`)
+
+test('a live Stripe write without a policy approval is refused before anything runs', () => {
+  const req = { ...run([{ tool: 'stripe.create_product', args: { name: 'Pro', mode: 'live' } }]), env: 'prod' } as RunReqT
+  assert.throws(() => approvalsNeeded(liveStripe, req), (err: any) =>
+    err.status === 403 && err.code === 'policy_denied' && err.details.reason === 'live_write_requires_approval' && err.details.action === 'create_product:live')
+  // the same write in test mode needs nothing
+  assert.deepEqual(approvalsNeeded(defaultPolicy(), run([{ tool: 'stripe.create_product', args: { name: 'Pro' } }])), [])
+})
+
+test('a live Stripe write waits for its approval; live reads do not', () => {
+  const req = run([
+    { tool: 'stripe.read_connect_account', args: { accountId: 'acct_1', mode: 'live' } },
+    { tool: 'stripe.list_failed_payouts', args: { mode: 'live' } },
+    { tool: 'stripe.create_price', args: { product: 'prod_1', unitAmount: 900, mode: 'live' } }
+  ])
+  const needed = approvalsNeeded(liveStripe, req)
+  assert.deepEqual(needed.map(r => `${r.tool}.${r.action}`), ['stripe.create_price:live'])
+  const approval = {
+    status: 'executing',
+    requestedBy: { name: 'agent' },
+    requirements: needed,
+    approvals: [{ by: 'alice', at: new Date().toISOString() }]
+  } as unknown as ApprovalRecord
+  assert.deepEqual(approvalsNeeded(liveStripe, req, approval), [])
+  assert.deepEqual(approvalsNeeded(liveStripe, run(req.steps.slice(0, 2))), [])
+})
+
+test('an /apply is held on the policy\'s github write_file, open_pr and auto_merge approvals', () => {
+  const policy = parsePolicy(`
+version: 1
+repos:
+  default:
+    tools:
+      github:
+        allow: [write_file, open_pr, auto_merge]
+        approvals:
+          - { action: write_file, approvers: [alice] }
+          - { action: auto_merge, approvers: [bob] }
+`)
+  const held = applyApprovalsNeeded(policy, 'acme/app', ['docs/a.md'], false, '')
+  assert.deepEqual(held.map(r => `${r.tool}.${r.action}:${r.env}`), ['github.write_file:staging'])
+  assert.deepEqual(applyApprovalsNeeded(policy, 'acme/app', ['docs/a.md'], true, '').map(r => r.action), ['write_file', 'auto_merge'])
+  assert.deepEqual(applyApprovalsNeeded(defaultPolicy(), 'acme/app', ['docs/a.md'], true, ''), [])
+
+  const approval = {
+    requestedBy: { name: 'agent' },
+    requirements: held,
+    approvals: [{ by: 'alice', at: new Date().toISOString() }]
+  } as unknown as ApprovalRecord
+  assert.deepEqual(applyApprovalsNeeded(policy, 'acme/app', ['docs/a.md'], false, '', approval), [])
+})
+
+// Stands in for both the Vercel API and the preview it serves; a deployment turns READY after `readyAfter` status reads
+async function vercelStub(readyAfter: number) {
+  let reads = 0
+  const server = http.createServer((req, res) => {
+    const json = (body: any) => res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(body))
+    if (req.method === 'POST' && req.url!.startsWith('/v13/deployments')) return json({ id: 'dpl_1', url })
+    if (req.url!.startsWith('/v13/deployments/dpl_1')) return json({ readyState: ++reads >= readyAfter ? 'READY' : 'BUILDING', url })
+    if (req.url!.startsWith('/v3/deployments/')) return json([])
+    json({ status: 'ok' })
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  Object.assign(ENV, { VERCEL_API_URL: url, VERCEL_TOKEN: 'test-vercel', VERCEL_PROJECT: 'app', PREVIEW_POLL_SECONDS: 3600 })
+  return server
+}
+
+const previewPolicy = parsePolicy(`
+version: 1
+repos:
+  default:
+    tools:
+      deploy: { allow: [create_preview] }
+      smoke: { allow: [run] }
+      github: { allow: [open_pr] }
+`)
+const runner: Caller = { keyId: 'k1', name: 'agent', repos: ['acme/*'], tools: ['deploy.*', 'smoke.*', 'github.*'], envs: ['staging'], legacy: false }
+const previewThenSmoke = run([
+  { tool: 'deploy.create_preview', args: { commit: 'abc123', waitSeconds: 0 } },
+  { tool: 'smoke.run', args: { checks: [{ path: '/health', json: [{ path: 'status', equals: 'ok' }] }] } },
+  { tool: 'github.open_pr', args: { title: 'x' } }
+])
+
+test('a smoke step after create_preview waits for the preview that step started', async () => {
+  const server = await vercelStub(2)
+  try {
+    const results = await runSteps(previewPolicy, runner, { ...previewThenSmoke, steps: previewThenSmoke.steps.slice(0, 2) })
+    assert.equal(results[0].status, 'ok', results[0].error)
+    assert.equal(results[0].output.state, 'building')
+    assert.equal(results[1].status, 'ok', results[1].error)
+    assert.equal(results[1].output.baseUrl, results[0].output.url)
+  } finally {
+    server.close()
+  }
+})
+
+test('a preview still building when the run runs out of time fails the smoke step and stops the run', async () => {
+  const server = await vercelStub(Infinity)
+  try {
+    const results = await runSteps(previewPolicy, runner, previewThenSmoke, new Map(), Date.now() + 2_500)
+    assert.deepEqual(results.map(r => r.status), ['ok', 'error', 'skipped'])
+    assert.match(results[1].error!, /^preview_building prv_/)
+  } finally {
+    server.close()
+  }
+})
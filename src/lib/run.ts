@@ -0,0 +1,289 @@
+import { isLiveWrite, policyAction, resolveTool } from '../adapters'
+import { approvalRequirement, enforce, enforcePath, secretsAllowFor, smokeTargetsFor, type ApprovalRequirement, type Policy } from '../policy'
+import { isWorkflowPath } from './allowlist'
+import { covers, type ApprovalRecord } from './approvals'
+import { ENV } from './env'
+import { assertScope, type Caller } from './keys'
+import { httpError } from './errors'
+import { checksum, migrationStatus, resolveMigration, type MigrationArgs } from './migrations'
+import { lintSql, type SqlReport } from './sqlrisk'
+import type { RunReqT } from '../types'
+
+export type StepStatus = 'ok' | 'error' | 'skipped' | 'dry_run'
+
+export type StepResult = {
+  index: number
+  tool: string
+  status: StepStatus
+  output?: any
+  error?: string
+  // supabase.sql_migrate: lint of the SQL this step runs
+  risk?: SqlReport
+  durationMs: number
+}
+
+/** A sql_migrate step after its SQL was loaded and linted; the step then runs exactly that SQL */
+export type PreparedStep = { args: Record<string, any>, risk: SqlReport, checksum: string }
+
+// Policy action that destructive SQL escalates to, e.g. approvals: [{ action: "sql_migrate_destructive", approvers: ["dba"] }]
+export const DESTRUCTIVE_SQL_ACTION = 'sql_migrate_destructive'
+
+/** "owner/name" -> { owner, repo } */
+export function splitRepo(full: string) {
+  const [owner, repo] = full.split('/')
+  if (!owner || !repo) return null
+  return { owner, repo }
+}
+
+/** Returns zod-style issue details for steps whose tool does not resolve to an adapter */
+export function unknownSteps(req: RunReqT) {
+  return req.steps.flatMap((s, i) =>
+    resolveTool(s.tool) ? [] : [{ path: ['steps', i, 'tool'], message: `Unknown tool: ${s.tool}` }]
+  )
+}
+
+/** Args every adapter receives from the request; step args may override branch but not the target or env. */
+function stepArgs(req: RunReqT, args: Record<string, any>) {
+  const target = splitRepo(req.repo)
+  return { branch: req.branch, ...args, owner: target?.owner, repo: target?.repo, env: req.env }
+}
+
+// Args whose values are secrets (supabase.set_function_env's kv); dry runs echo only their names
+const SECRET_ARGS = ['kv']
+
+function redact(args: Record<string, any>) {
+  const out = { ...args }
+  for (const k of SECRET_ARGS) {
+    if (out[k] && typeof out[k] === 'object') out[k] = Object.fromEntries(Object.keys(out[k]).map(n => [n, '[redacted]']))
+  }
+  return out
+}
+
+/** Secret args taken out of a /run body, by step index then arg name */
+export type WithheldSecrets = Record<string, Record<string, any>>
+
+/**
+ * Splits a /run body for holding: `payload` has every step's secret args redacted and is
+ * safe to store and return; `secrets` holds the values (undefined when there are none).
+ */
+export function withholdSecrets(body: any): { payload: any, secrets?: WithheldSecrets } {
+  if (!Array.isArray(body?.steps)) return { payload: body }
+  const secrets: WithheldSecrets = {}
+  const steps = body.steps.map((step: any, index: number) => {
+    const args = step?.args
+    if (!args || typeof args !== 'object') return step
+    const held = Object.fromEntries(SECRET_ARGS.filter(k => args[k] && typeof args[k] === 'object').map(k => [k, args[k]]))
+    if (Object.keys(held).length === 0) return step
+    secrets[index] = held
+    return { ...step, args: redact(args) }
+  })
+  return Object.keys(secrets).length > 0 ? { payload: { ...body, steps }, secrets } : { payload: body }
+}
+
+/** Puts withheld secret args back into a held /run body */
+export function restoreSecrets(payload: any, secrets?: WithheldSecrets) {
+  if (!secrets) return payload
+  const steps = payload.steps.map((step: any, index: number) =>
+    secrets[index] ? { ...step, args: { ...step.args, ...secrets[index] } } : step
+  )
+  return { ...payload, steps }
+}
+
+/**
+ * Workflow writes (.github/workflows/**) need either sign-off through the policy's
+ * `github.write_workflow` approvals (returned as a requirement unless `approval` already
+ * covers it) or, when the policy declares none, the WORKFLOW_EDIT_KEY. A held request
+ * passed this gate before it was parked, so replaying it does not ask for the key again.
+ */
+export function workflowGate(policy: Policy, repo: string, paths: string[], workflowKey: string, approval?: ApprovalRecord): ApprovalRequirement[] {
+  const p = paths.find(x => isWorkflowPath(x))
+  if (!p) return []
+  const required = approvalRequirement(policy, repo, 'github', 'write_workflow')
+  if (required) return covers(approval, 'github', 'write_workflow', 'staging') ? [] : [required]
+  if (!approval && (!workflowKey || workflowKey !== ENV.WORKFLOW_EDIT_KEY)) {
+    throw httpError(403, 'workflow_edit_blocked', { path: p })
+  }
+  return []
+}
+
+/**
+ * Approval requirements of an /apply that `approval` does not already cover: the workflow
+ * gate plus the policy's github approvals for write_file, open_pr and, when the PR is to be
+ * merged by Butler, auto_merge. /apply always targets staging.
+ */
+export function applyApprovalsNeeded(
+  policy: Policy, repo: string, paths: string[], merge: boolean, workflowKey: string, approval?: ApprovalRecord
+): ApprovalRequirement[] {
+  const needed = workflowGate(policy, repo, paths, workflowKey, approval)
+  for (const action of merge ? ['write_file', 'open_pr', 'auto_merge'] : ['write_file', 'open_pr']) {
+    const r = approvalRequirement(policy, repo, 'github', action, 'staging')
+    if (r && !covers(approval, r.tool, r.action, r.env)) needed.push(r)
+  }
+  return needed
+}
+
+/** Paths the run's github.write_file steps write */
+export function writtenPaths(req: RunReqT) {
+  return req.steps.flatMap(step => {
+    const path = step.tool === 'github.write_file' ? step.args.path : undefined
+    return typeof path === 'string' ? [path] : []
+  })
+}
+
+/** Throws scope_denied / policy_denied (403) if the caller's key or the policy does not allow the step or a path it writes */
+function authorize(policy: Policy, caller: Caller, req: RunReqT, tool: string, action: string, args: Record<string, any>, consume = true) {
+  assertScope(caller, req.repo, tool, action, req.env)
+  enforce(policy, req.repo, tool, policyAction(tool, action, args), req.env, { consume })
+  if (typeof args.path === 'string') enforcePath(policy, req.repo, tool, action, req.env, args.path)
+}
+
+/** Checks every step against the policy before anything runs, so a denied step cannot leave a half-applied run. */
+export function authorizeSteps(policy: Policy, caller: Caller, req: RunReqT) {
+  for (const step of req.steps) {
+    const resolved = resolveTool(step.tool)
+    if (resolved) authorize(policy, caller, req, resolved.tool, resolved.action, stepArgs(req, step.args), false)
+  }
+}
+
+/**
+ * Loads and lints the SQL of every supabase.sql_migrate step (the down script for
+ * rollbacks, falling back to the one stored when the version was applied). A step
+ * whose SQL cannot be loaded is refused (422 sql_unavailable): unlinted SQL would
+ * otherwise skip the destructive-SQL approval.
+ */
+export async function prepareSteps(req: RunReqT): Promise<Map<number, PreparedStep>> {
+  const prepared = new Map<number, PreparedStep>()
+  for (const [index, step] of req.steps.entries()) {
+    if (step.tool !== 'supabase.sql_migrate') continue
+    const args: Record<string, any> = stepArgs(req, step.args)
+    let m: MigrationArgs
+    let sql: string | undefined
+    try {
+      m = await resolveMigration(args as MigrationArgs)
+      sql = args.direction === 'down' ? m.down : m.sql
+      if (sql === undefined && args.direction === 'down' && m.version) {
+        sql = (await migrationStatus(req.env, m.version))?.down_sql ?? undefined
+      }
+    } catch (err: any) {
+      throw httpError(422, 'sql_unavailable', { step: index, tool: step.tool, message: err?.message || String(err) })
+    }
+    if (sql === undefined) {
+      throw httpError(422, 'sql_unavailable', { step: index, tool: step.tool, message: `no ${args.direction === 'down' ? 'down script' : 'sql'} to run` })
+    }
+    prepared.set(index, { args: { sql: m.sql, down: m.down, version: m.version, name: m.name }, risk: lintSql(sql), checksum: checksum(sql) })
+  }
+  return prepared
+}
+
+/** sha256 of each prepared step's SQL by step index; stored with a held run so its replay runs the SQL that was approved */
+export function sqlChecksums(prepared: Map<number, PreparedStep>): Record<string, string> {
+  return Object.fromEntries(Array.from(prepared, ([index, p]) => [String(index), p.checksum]))
+}
+
+/** Throws 409 sql_changed if the SQL a replayed run would execute differs from what was linted when it was held */
+export function assertSqlUnchanged(approval: ApprovalRecord, prepared: Map<number, PreparedStep>) {
+  const approved = approval.sqlChecksums ?? {}
+  const steps = new Set([...Object.keys(approved), ...Array.from(prepared.keys(), String)])
+  for (const step of steps) {
+    const now = prepared.get(Number(step))?.checksum
+    if (approved[step] !== now) {
+      throw httpError(409, 'sql_changed', { id: approval.id, step: Number(step), approved: approved[step] ?? null, current: now ?? null })
+    }
+  }
+}
+
+/**
+ * Approval requirements of the steps that `approval` (when replaying a held run) does not already cover.
+ * Destructive SQL needs the policy's sql_migrate_destructive approval in every env, staging included;
+ * a policy without one refuses it (403 policy_denied). Live Stripe writes are treated the same way:
+ * they always wait for their `<action>:live` approval and are refused when the policy has none.
+ */
+export function approvalsNeeded(policy: Policy, req: RunReqT, approval?: ApprovalRecord, prepared = new Map<number, PreparedStep>()) {
+  const needed = new Map<string, ApprovalRequirement>()
+  for (const [index, step] of req.steps.entries()) {
+    const resolved = resolveTool(step.tool)
+    if (!resolved) continue
+    const args = stepArgs(req, step.args)
+    const action = policyAction(resolved.tool, resolved.action, args)
+    const r = approvalRequirement(policy, req.repo, resolved.tool, action, req.env)
+    if (!r && isLiveWrite(resolved.tool, resolved.action, args)) {
+      throw httpError(403, 'policy_denied', {
+        tool: resolved.tool, action, env: req.env, rule: null, step: index, reason: 'live_write_requires_approval'
+      })
+    }
+    if (r && !covers(approval, r.tool, r.action, r.env)) needed.set(`${r.tool}.${r.action}:${r.env}`, r)
+
+    const risk = prepared.get(index)?.risk
+    if (!risk?.destructive) continue
+    const d = approvalRequirement(policy, req.repo, resolved.tool, DESTRUCTIVE_SQL_ACTION, req.env)
+    if (!d) {
+      throw httpError(403, 'policy_denied', {
+        tool: resolved.tool, action: DESTRUCTIVE_SQL_ACTION, env: req.env, rule: null, step: index, findings: risk.findings
+      })
+    }
+    if (!covers(approval, d.tool, d.action, d.env)) needed.set(`${d.tool}.${d.action}:${d.env}`, d)
+  }
+  return Array.from(needed.values())
+}
+
+// Requests are cut off after 15s. The whole run, not each step, has to fit: no step starts after
+// RUN_BUDGET_MS, and steps that wait (previews, smoke checks) stop STEP_RESERVE_MS earlier so the
+// step after them still has time to run.
+export const RUN_BUDGET_MS = 13_000
+const STEP_RESERVE_MS = 2_000
+
+/**
+ * Runs steps strictly in order. The first failing step stops the run and
+ * every later step is reported as skipped. `deadline` (epoch ms) is when the
+ * run's time is up, counted from the start of the request.
+ */
+export async function runSteps(
+  policy: Policy, caller: Caller, req: RunReqT, prepared = new Map<number, PreparedStep>(), deadline = Date.now() + RUN_BUDGET_MS
+): Promise<StepResult[]> {
+  const results: StepResult[] = []
+  let failed = false
+  // a smoke.run after deploy.create_preview tests that preview, even while it is still building
+  let previewId: string | undefined
+
+  for (const [index, step] of req.steps.entries()) {
+    const resolved = resolveTool(step.tool)
+    const prep = prepared.get(index)
+    const args: Record<string, any> = prep ? { ...stepArgs(req, step.args), ...prep.args } : stepArgs(req, step.args)
+    if (step.tool === 'smoke.run' && previewId && args.baseUrl === undefined && args.previewId === undefined) args.previewId = previewId
+    if (failed || !resolved) {
+      results.push({ index, tool: step.tool, status: 'skipped', risk: prep?.risk, durationMs: 0 })
+      continue
+    }
+    if (req.dryRun) {
+      results.push({ index, tool: step.tool, status: 'dry_run', output: { args: redact(args) }, risk: prep?.risk, durationMs: 0 })
+      continue
+    }
+
+    const t0 = Date.now()
+    try {
+      if (t0 >= deadline) throw new Error('run_deadline: not started, the run\'s time budget is used up')
+      authorize(policy, caller, req, resolved.tool, resolved.action, args)
+      // the repo's accepted secret findings, smoke targets and the caller's name travel with the call; step args cannot override them
+      const output = await resolved.fn({
+        ...args,
+        secretsAllow: secretsAllowFor(policy, req.repo),
+        smokeTargets: smokeTargetsFor(policy, req.repo),
+        deadline: deadline - STEP_RESERVE_MS,
+        calledBy: caller.name
+      })
+      if (step.tool === 'deploy.create_preview') previewId = output?.previewId
+      results.push({ index, tool: step.tool, status: 'ok', output, risk: prep?.risk, durationMs: Date.now() - t0 })
+    } catch (err: any) {
+      failed = true
+      results.push({
+        index,
+        tool: step.tool,
+        status: 'error',
+        error: err?.message || String(err),
+        risk: prep?.risk,
+        durationMs: Date.now() - t0
+      })
+    }
+  }
+  return results
+}
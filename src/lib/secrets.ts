@@ -0,0 +1,137 @@
+import crypto from 'crypto'
+import { ENV } from './env'
+import { httpError } from './errors'
+import { isUtf8Text, type FileChange } from './edits'
+
+export type SecretFinding = {
+  path: string
+  line: number
+  rule: string
+  // stable id of (rule, matched text); put it in policy secrets_allow to accept the finding
+  fingerprint: string
+}
+
+/** Policy secrets_allow entry: a fingerprint, or every finding (optionally of one rule) in matching paths */
+export type SecretAllow = string | { path: string, rule?: string }
+
+const JWT = /\beyJ[A-Za-z0-9_-]+\.eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g
+
+const PATTERNS: Array<{ rule: string, re: RegExp }> = [
+  { rule: 'github_token', re: /\b(?:ghp|gho|ghu|ghs|ghr)_[A-Za-z0-9]{36}\b/g },
+  { rule: 'github_pat', re: /\bgithub_pat_[A-Za-z0-9_]{60,}\b/g },
+  { rule: 'stripe_live_key', re: /\b(?:sk|rk)_live_[A-Za-z0-9]{16,}\b/g },
+  { rule: 'aws_access_key', re: /\bAKIA[0-9A-Z]{16}\b/g },
+  { rule: 'private_key', re: /-----BEGIN (?:[A-Z]+ )?PRIVATE KEY-----/g },
+  { rule: 'supabase_service_role', re: JWT },
+  { rule: 'high_entropy', re: /[A-Za-z0-9+/_-]{32,}={0,2}/g }
+]
+
+// Spans the entropy rule leaves alone: URLs (long path segments and ids are not credentials),
+// Subresource Integrity hashes (package-lock.json) and JWTs whose role is "anon" (shipped to browsers)
+const URL_RE = /\b[a-z][a-z0-9+.-]*:\/\/[^\s"'`<>()]+/gi
+const SRI_RE = /\bsha(?:256|384|512)-[A-Za-z0-9+/]+={0,2}/g
+
+function entropy(s: string) {
+  const counts = new Map<string, number>()
+  for (const ch of s) counts.set(ch, (counts.get(ch) || 0) + 1)
+  let h = 0
+  for (const n of counts.values()) h -= (n / s.length) * Math.log2(n / s.length)
+  return h
+}
+
+function jwtRole(token: string): string | null {
+  try {
+    const payload = JSON.parse(Buffer.from(token.split('.')[1], 'base64url').toString('utf8'))
+    return typeof payload?.role === 'string' ? payload.role : null
+  } catch {
+    return null
+  }
+}
+
+function benignSpans(text: string): Array<[number, number]> {
+  const spans: Array<[number, number]> = []
+  for (const re of [URL_RE, SRI_RE]) {
+    for (const m of text.matchAll(re)) spans.push([m.index ?? 0, (m.index ?? 0) + m[0].length])
+  }
+  for (const m of text.matchAll(JWT)) {
+    if (jwtRole(m[0]) === 'anon') spans.push([m.index ?? 0, (m.index ?? 0) + m[0].length])
+  }
+  return spans
+}
+
+// ENV entries holding credentials, by name; the anon key is public by design and *_FILE entries are paths
+const SECRET_ENV = /KEY|TOKEN|SECRET|PASSWORD|DB_URL/
+const NOT_SECRET_ENV = /ANON_KEY|_FILE$/
+
+// Butler's own credentials, matched literally wherever they appear
+function ownSecrets(): string[] {
+  return Object.entries(ENV)
+    .filter(([name, v]) => SECRET_ENV.test(name) && !NOT_SECRET_ENV.test(name) && typeof v === 'string' && v.length >= 8)
+    .map(([, v]) => v as string)
+}
+
+function fingerprint(rule: string, match: string) {
+  return crypto.createHash('sha256').update(`${rule}:${match}`).digest('hex').slice(0, 16)
+}
+
+function lineAt(text: string, index: number) {
+  let n = 1
+  for (let i = text.indexOf('\n'); i !== -1 && i < index; i = text.indexOf('\n', i + 1)) n++
+  return n
+}
+
+/**
+ * Findings in `text`. Matches that already occur in `before` are skipped so that
+ * editing a file does not re-flag content that was committed earlier.
+ */
+export function scanText(path: string, text: string, before = ''): SecretFinding[] {
+  const findings: SecretFinding[] = []
+  const seen = new Set<string>()
+  const add = (rule: string, match: string, index: number) => {
+    if (before.includes(match)) return
+    const key = `${index}:${match.length}`
+    if (seen.has(key)) return
+    seen.add(key)
+    findings.push({ path, line: lineAt(text, index), rule, fingerprint: fingerprint(rule, match) })
+  }
+
+  const benign = benignSpans(text)
+  const inBenign = (start: number, end: number) => benign.some(([s, e]) => start >= s && end <= e)
+  for (const { rule, re } of PATTERNS) {
+    for (const m of text.matchAll(re)) {
+      const at = m.index ?? 0
+      if (rule === 'supabase_service_role' && jwtRole(m[0]) !== 'service_role') continue
+      // random credentials mix letters and digits; long identifiers and words do not
+      if (rule === 'high_entropy' && (entropy(m[0]) < 4.5 || !/\d/.test(m[0]) || !/[A-Za-z]/.test(m[0]) || inBenign(at, at + m[0].length))) continue
+      add(rule, m[0], at)
+    }
+  }
+  for (const v of ownSecrets()) {
+    for (let i = text.indexOf(v); i !== -1; i = text.indexOf(v, i + v.length)) add('butler_secret', v, i)
+  }
+  // A specific rule and the generic entropy rule may both hit the same token; keep the specific one
+  return findings
+    .filter(f => f.rule !== 'high_entropy' || !findings.some(o => o !== f && o.rule !== 'high_entropy' && o.line === f.line))
+    .sort((a, b) => a.line - b.line)
+}
+
+/** Scans every changed text file as it will be committed */
+export function scanChanges(files: FileChange[]): SecretFinding[] {
+  return files.flatMap(f => {
+    if (!f.after || !isUtf8Text(f.after)) return []
+    const before = f.before && isUtf8Text(f.before) ? f.before.toString('utf8') : ''
+    return scanText(f.path, f.after.toString('utf8'), before)
+  })
+}
+
+function allowed(f: SecretFinding, allow: SecretAllow[]) {
+  return allow.some(a => typeof a === 'string'
+    ? a === f.fingerprint
+    : new RegExp(a.path).test(f.path) && (!a.rule || a.rule === f.rule))
+}
+
+/** Throws 422 secret_detected (path, line, rule, fingerprint; never the secret) for findings not allowlisted */
+export function assertNoSecrets(findings: SecretFinding[], allow: SecretAllow[] = []) {
+  const blocked = findings.filter(f => !allowed(f, allow))
+  if (blocked.length) throw httpError(422, 'secret_detected', { findings: blocked })
+}
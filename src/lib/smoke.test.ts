@@ -0,0 +1,61 @@
+import { after, before, test } from 'node:test'
+import assert from 'node:assert/strict'
+import http from 'http'
+import type { AddressInfo } from 'net'
+import { parseJsonPath, runSmoke, SmokeChecks } from './smoke'
+
+let server: http.Server
+let baseUrl: string
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    if (req.url === '/health') {
+      res.writeHead(200, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify({ status: 'ok', data: { items: [{ id: 'ord_123', total: 5 }] } }))
+    } else if (req.url === '/slow') {
+      setTimeout(() => res.end('late'), 1000)
+    } else {
+      res.writeHead(404)
+      res.end('nope')
+    }
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+})
+
+after(() => {
+  server.closeAllConnections()
+  server.close()
+})
+
+const checks = (raw: unknown) => SmokeChecks.parse(raw)
+
+test('parseJsonPath reads dotted, indexed and quoted segments', () => {
+  assert.deepEqual(parseJsonPath("$.data.items[0]['a b']"), ['data', 'items', 0, 'a b'])
+  assert.throws(() => parseJsonPath('$.data..x'), /invalid/)
+})
+
+test('status and JSON assertions pass and fail as expected', async () => {
+  const report = await runSmoke(baseUrl, checks([
+    { path: '/health', json: [{ path: '$.status', equals: 'ok' }, { path: 'data.items[0].id', matches: '^ord_\\d+$' }, { path: 'data.items[0].total', type: 'number' }] },
+    { path: '/missing', expectStatus: [404, 410] },
+    { name: 'wrong', path: '/health', json: [{ path: '$.status', equals: 'down' }, { path: '$.error', exists: true }] }
+  ]))
+  assert.deepEqual([report.total, report.passed, report.failed], [3, 2, 1])
+  assert.deepEqual(report.results[2].failures, ['$.status: expected "down", got "ok"', '$.error: missing'])
+})
+
+test('a slow endpoint times out and the total budget stops later checks', async () => {
+  const report = await runSmoke(baseUrl, checks([{ path: '/slow' }, { path: '/health' }]), 10_000, 300)
+  assert.equal(report.ok, false)
+  assert.match(report.results[0].failures[0], /no response within \d+ms/)
+  assert.match(report.results[1].failures[0], /not run: the 300ms time budget was used up/)
+})
+
+test('matches must be a short, valid regular expression', () => {
+  assert.equal(SmokeChecks.safeParse([{ path: '/', json: [{ path: 'a', matches: '(' }] }]).success, false)
+  assert.equal(SmokeChecks.safeParse([{ path: '/', json: [{ path: 'a', matches: 'a'.repeat(201) }] }]).success, false)
+  assert.equal(SmokeChecks.safeParse([{ path: '/', json: [{ path: 'a', matches: '^(a+)+$' }] }]).success, false)
+  assert.equal(SmokeChecks.safeParse([{ path: '/', json: [{ path: 'a', matches: '(\\w)\\1' }] }]).success, false)
+  assert.equal(SmokeChecks.safeParse([{ path: '/', json: [{ path: 'a', matches: '^ok$' }] }]).success, true)
+})
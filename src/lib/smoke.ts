@@ -0,0 +1,176 @@
+import { z } from 'zod'
+import { unsafePattern } from './regex'
+
+const Json = z.any()
+// user-supplied patterns run against response values, so keep them short, compiling and free of backtracking traps
+const Pattern = z.string().superRefine((re, ctx) => {
+  const unsafe = unsafePattern(re, 200)
+  if (unsafe) ctx.addIssue({ code: z.ZodIssueCode.custom, message: unsafe })
+})
+// longest response value a pattern is tested against
+const MAX_MATCH_INPUT = 10_000
+
+/** One assertion on the parsed JSON response; `path` is "$.data.items[0].id" (the "$." is optional) */
+export const JsonAssertion = z.object({
+  path: z.string().min(1),
+  exists: z.boolean().optional(),
+  equals: Json.optional(),
+  matches: Pattern.optional(),
+  type: z.enum(['string', 'number', 'boolean', 'object', 'array', 'null']).optional()
+})
+
+export const SmokeCheck = z.object({
+  name: z.string().optional(),
+  method: z.enum(['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS']).default('GET'),
+  path: z.string().startsWith('/'),
+  headers: z.record(z.string()).optional(),
+  body: Json.optional(),
+  // one status or any of several
+  expectStatus: z.union([z.number().int(), z.array(z.number().int()).min(1)]).default(200),
+  json: z.array(JsonAssertion).default([]),
+  maxLatencyMs: z.number().int().positive().optional()
+})
+
+export const SmokeChecks = z.array(SmokeCheck).min(1).max(50)
+
+export type SmokeCheckT = z.infer<typeof SmokeCheck>
+
+export type SmokeResult = {
+  name: string
+  method: string
+  path: string
+  ok: boolean
+  status: number | null
+  latencyMs: number
+  // every assertion that did not hold; empty when ok
+  failures: string[]
+}
+
+export type SmokeReport = {
+  ok: boolean
+  baseUrl: string
+  total: number
+  passed: number
+  failed: number
+  results: SmokeResult[]
+  ranAt: string
+}
+
+/** "$.a.b[0]['c d']" -> ['a', 'b', 0, 'c d']; throws on anything else */
+export function parseJsonPath(path: string): Array<string | number> {
+  const src = path.replace(/^\$\.?/, '')
+  const out: Array<string | number> = []
+  const re = /(?:^|\.)([A-Za-z_$][\w$-]*)|\[(\d+)\]|\[(['"])(.*?)\3\]/y
+  let i = 0
+  while (i < src.length) {
+    re.lastIndex = i
+    const m = re.exec(src)
+    if (!m) throw new Error(`invalid: JSON path ${path}`)
+    out.push(m[1] ?? (m[2] !== undefined ? Number(m[2]) : m[4]))
+    i = re.lastIndex
+  }
+  return out
+}
+
+function lookup(value: any, path: Array<string | number>): { found: boolean, value?: any } {
+  let cur = value
+  for (const key of path) {
+    if (cur === null || typeof cur !== 'object' || !Object.prototype.hasOwnProperty.call(cur, key)) return { found: false }
+    cur = cur[key]
+  }
+  return { found: true, value: cur }
+}
+
+const typeOf = (v: any) => (v === null ? 'null' : Array.isArray(v) ? 'array' : typeof v)
+
+// deep equality for JSON values; object key order does not matter
+function sameJson(a: any, b: any): boolean {
+  if (typeOf(a) !== typeOf(b)) return false
+  if (Array.isArray(a)) return a.length === b.length && a.every((v, i) => sameJson(v, b[i]))
+  if (a && typeof a === 'object') {
+    const keys = Object.keys(a)
+    return keys.length === Object.keys(b).length && keys.every(k => Object.prototype.hasOwnProperty.call(b, k) && sameJson(a[k], b[k]))
+  }
+  return a === b
+}
+
+const show = (v: any) => JSON.stringify(v)?.slice(0, 120)
+
+function assertJson(body: any, a: z.infer<typeof JsonAssertion>): string[] {
+  const hit = lookup(body, parseJsonPath(a.path))
+  const exists = a.exists ?? true
+  if (!hit.found) return exists ? [`${a.path}: missing`] : []
+  if (!exists) return [`${a.path}: expected to be absent, got ${show(hit.value)}`]
+  const out: string[] = []
+  if (a.type && typeOf(hit.value) !== a.type) out.push(`${a.path}: expected ${a.type}, got ${typeOf(hit.value)}`)
+  if (a.equals !== undefined && !sameJson(hit.value, a.equals)) out.push(`${a.path}: expected ${show(a.equals)}, got ${show(hit.value)}`)
+  if (a.matches !== undefined && String(hit.value).length > MAX_MATCH_INPUT) out.push(`${a.path}: value is longer than ${MAX_MATCH_INPUT} characters to match /${a.matches}/`)
+  else if (a.matches !== undefined && !new RegExp(a.matches).test(String(hit.value))) out.push(`${a.path}: ${show(hit.value)} does not match /${a.matches}/`)
+  return out
+}
+
+async function runCheck(baseUrl: string, c: SmokeCheckT, timeoutMs: number): Promise<SmokeResult> {
+  const name = c.name || `${c.method} ${c.path}`
+  const headers: Record<string, string> = { Accept: 'application/json', ...c.headers }
+  let body: string | undefined
+  if (c.body !== undefined) {
+    body = typeof c.body === 'string' ? c.body : JSON.stringify(c.body)
+    if (typeof c.body !== 'string' && !Object.keys(headers).some(h => h.toLowerCase() === 'content-type')) headers['Content-Type'] = 'application/json'
+  }
+  const t0 = Date.now()
+  let res: Response
+  let text: string
+  try {
+    res = await fetch(`${baseUrl}${c.path}`, { method: c.method, headers, body, redirect: 'manual', signal: AbortSignal.timeout(timeoutMs) })
+    text = await res.text()
+  } catch (err: any) {
+    const reason = err?.name === 'TimeoutError' ? `no response within ${timeoutMs}ms` : `request failed: ${err?.cause?.code || err?.cause?.message || err?.message || err}`
+    return { name, method: c.method, path: c.path, ok: false, status: null, latencyMs: Date.now() - t0, failures: [reason] }
+  }
+  const latencyMs = Date.now() - t0
+
+  const failures: string[] = []
+  const expected = Array.isArray(c.expectStatus) ? c.expectStatus : [c.expectStatus]
+  if (!expected.includes(res.status)) failures.push(`status ${res.status}, expected ${expected.join(' or ')}`)
+  if (c.maxLatencyMs !== undefined && latencyMs > c.maxLatencyMs) failures.push(`took ${latencyMs}ms, max ${c.maxLatencyMs}ms`)
+  if (c.json.length) {
+    let parsed: any
+    try {
+      parsed = JSON.parse(text)
+    } catch {
+      failures.push(`body is not JSON (${res.headers.get('content-type') || 'no content-type'})`)
+    }
+    if (parsed !== undefined) for (const a of c.json) failures.push(...assertJson(parsed, a))
+  }
+  return { name, method: c.method, path: c.path, ok: failures.length === 0, status: res.status, latencyMs, failures }
+}
+
+// the whole run has to finish inside the 15s request guard
+export const SMOKE_BUDGET_MS = 12_000
+
+/**
+ * Runs the checks one after another against `baseUrl`; every check runs even after a failure.
+ * Each request gets `timeoutMs` or what is left of `budgetMs`, whichever is less; checks
+ * that no longer fit in the budget are reported as failed without being sent.
+ */
+export async function runSmoke(baseUrl: string, checks: SmokeCheckT[], timeoutMs = 10_000, budgetMs = SMOKE_BUDGET_MS): Promise<SmokeReport> {
+  const results: SmokeResult[] = []
+  const deadline = Date.now() + budgetMs
+  for (const c of checks) {
+    const left = deadline - Date.now()
+    if (left <= 0) {
+      const failures = [`not run: the ${budgetMs}ms time budget was used up`]
+      results.push({ name: c.name || `${c.method} ${c.path}`, method: c.method, path: c.path, ok: false, status: null, latencyMs: 0, failures })
+      continue
+    }
+    results.push(await runCheck(baseUrl, c, Math.min(timeoutMs, left)))
+  }
+  const passed = results.filter(r => r.ok).length
+  return { ok: passed === results.length, baseUrl, total: results.length, passed, failed: results.length - passed, results, ranAt: new Date().toISOString() }
+}
+
+export function renderSmoke(r: SmokeReport) {
+  const lines = [r.ok ? `all ${r.total} checks passed against ${r.baseUrl}` : `${r.failed} of ${r.total} checks failed against ${r.baseUrl}`]
+  for (const res of r.results.filter(x => !x.ok)) lines.push(`- ${res.name}: ${res.failures.join('; ')}`)
+  return lines.join('\n')
+}
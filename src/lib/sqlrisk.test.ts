@@ -0,0 +1,46 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { lintSql, splitStatements } from './sqlrisk'
+
+const rules = (sql: string) => lintSql(sql).findings.map(f => `${f.rule}:${f.table}`)
+
+test('splitStatements ignores semicolons in comments, strings and function bodies', () => {
+  const sql = [
+    "-- a; comment",
+    "insert into notes (body) values ('a;b');",
+    "create function f() returns int as $$ begin return 1; end $$ language plpgsql;",
+    "/* x; */ select 1"
+  ].join('\n')
+  assert.deepEqual(splitStatements(sql).map(s => s.line), [2, 3, 4])
+})
+
+test('destructive statements are flagged with their table', () => {
+  assert.deepEqual(rules('DROP TABLE IF EXISTS public.orders'), ['drop_table:public.orders'])
+  assert.deepEqual(rules('truncate table audit.events'), ['truncate:audit.events'])
+  assert.deepEqual(rules('ALTER TABLE orders DROP COLUMN note'), ['drop_column:public.orders'])
+  assert.deepEqual(rules('ALTER TABLE orders DROP note'), ['drop_column:public.orders'])
+  assert.deepEqual(rules('ALTER TABLE orders ADD COLUMN a int, DROP COLUMN IF EXISTS b'), ['drop_column:public.orders'])
+  assert.deepEqual(rules('ALTER TABLE orders ALTER COLUMN total TYPE numeric(12,2)'), ['alter_column_type:public.orders'])
+  assert.deepEqual(rules('DELETE FROM orders'), ['delete_without_where:public.orders'])
+  assert.equal(lintSql('DROP TABLE orders').risk, 'high')
+})
+
+test('DROP clauses inside ALTER COLUMN and constraints are not column drops', () => {
+  const safe = [
+    'ALTER TABLE orders ALTER COLUMN note DROP NOT NULL',
+    'ALTER TABLE orders ALTER COLUMN note DROP DEFAULT',
+    'ALTER TABLE orders ALTER note DROP DEFAULT, ALTER COLUMN total SET NOT NULL',
+    'ALTER TABLE orders ALTER COLUMN id DROP IDENTITY IF EXISTS',
+    'ALTER TABLE orders DROP CONSTRAINT orders_total_check',
+    "ALTER TABLE orders ADD COLUMN tag text DEFAULT 'a, drop b'",
+    'DELETE FROM orders WHERE id = 1'
+  ]
+  for (const sql of safe) assert.deepEqual(lintSql(sql).findings, [], sql)
+})
+
+test('tables created in an exposed schema need row level security', () => {
+  assert.deepEqual(rules('create table public.notes (id int)'), ['missing_rls:public.notes'])
+  assert.equal(lintSql('create table public.notes (id int)').risk, 'low')
+  assert.deepEqual(rules('create table notes (id int); alter table notes enable row level security'), [])
+  assert.deepEqual(rules('create table private.notes (id int)'), [])
+})
@@ -0,0 +1,178 @@
+import { ENV } from './env'
+
+export type SqlFindingRule =
+  | 'drop_table' | 'drop_column' | 'truncate' | 'alter_column_type' | 'delete_without_where' | 'missing_rls'
+
+export type SqlFinding = {
+  rule: SqlFindingRule
+  severity: 'destructive' | 'warning'
+  line: number          // 1-based line the statement starts on
+  statement: string     // first 200 chars, whitespace collapsed
+  table?: string
+}
+
+/** Risk of one migration script: high when any finding is destructive */
+export type SqlReport = {
+  risk: 'none' | 'low' | 'high'
+  destructive: boolean
+  statements: number
+  findings: SqlFinding[]
+}
+
+/**
+ * Splits SQL into statements on top-level semicolons, skipping comments, quoted
+ * strings/identifiers and dollar-quoted bodies (function definitions).
+ */
+export function splitStatements(sql: string): Array<{ text: string, line: number }> {
+  const out: Array<{ text: string, line: number }> = []
+  let buf = ''
+  let line = 1
+  let start = 1
+  let i = 0
+  const push = () => {
+    if (buf.trim()) out.push({ text: buf.trim(), line: start })
+    buf = ''
+  }
+  while (i < sql.length) {
+    const ch = sql[i]
+    const rest = sql.slice(i)
+    if (!buf.trim()) start = line
+    if (rest.startsWith('--')) {
+      const end = sql.indexOf('\n', i)
+      i = end < 0 ? sql.length : end
+      continue
+    }
+    if (rest.startsWith('/*')) {
+      const end = sql.indexOf('*/', i + 2)
+      const stop = end < 0 ? sql.length : end + 2
+      line += (sql.slice(i, stop).match(/\n/g) || []).length
+      buf += ' '
+      i = stop
+      continue
+    }
+    const dollar = /^\$[A-Za-z_]*\$/.exec(rest)
+    const quote = ch === "'" || ch === '"' ? ch : null
+    if (dollar || quote) {
+      const tag = dollar ? dollar[0] : quote!
+      const end = sql.indexOf(tag, i + tag.length)
+      const stop = end < 0 ? sql.length : end + tag.length
+      const chunk = sql.slice(i, stop)
+      line += (chunk.match(/\n/g) || []).length
+      buf += chunk
+      i = stop
+      continue
+    }
+    if (ch === ';') {
+      push()
+      i++
+      continue
+    }
+    if (ch === '\n') line++
+    buf += ch
+    i++
+  }
+  push()
+  return out
+}
+
+const IDENT = String.raw`((?:"[^"]+"|[\w$]+)(?:\s*\.\s*(?:"[^"]+"|[\w$]+))?)`
+const unquote = (name: string) => name.replace(/"/g, '').replace(/\s+/g, '').toLowerCase()
+/** "schema.table" with the default schema filled in */
+const qualified = (name: string) => (unquote(name).includes('.') ? unquote(name) : `public.${unquote(name)}`)
+
+const RULES: Array<{ rule: SqlFindingRule, re: RegExp }> = [
+  { rule: 'drop_table', re: new RegExp(String.raw`^drop\s+table\s+(?:if\s+exists\s+)?${IDENT}`, 'i') },
+  { rule: 'truncate', re: new RegExp(String.raw`^truncate\s+(?:table\s+)?(?:only\s+)?${IDENT}`, 'i') },
+  { rule: 'alter_column_type', re: new RegExp(String.raw`^alter\s+table\s+(?:if\s+exists\s+)?(?:only\s+)?${IDENT}[\s\S]*\balter\s+(?:column\s+)?\S+\s+(?:set\s+data\s+)?type\b`, 'i') },
+  { rule: 'delete_without_where', re: new RegExp(String.raw`^delete\s+from\s+(?:only\s+)?${IDENT}(?![\s\S]*\bwhere\b)`, 'i') }
+]
+
+const ALTER_TABLE = new RegExp(String.raw`^alter\s+table\s+(?:if\s+exists\s+)?(?:only\s+)?${IDENT}\s+([\s\S]*)$`, 'i')
+// An ALTER TABLE action that drops a column: "DROP [COLUMN] [IF EXISTS] name", but not DROP CONSTRAINT
+const DROP_COLUMN = /^drop\s+(?:column\s+)?(?!constraint\b)(?:if\s+exists\s+)?"?\w/i
+
+/**
+ * The actions of an ALTER TABLE statement, split on top-level commas, so that
+ * "ALTER COLUMN c DROP NOT NULL" stays one action and is not read as a DROP.
+ */
+function alterActions(text: string): { table: string, actions: string[] } | null {
+  const m = ALTER_TABLE.exec(text)
+  if (!m) return null
+  const actions: string[] = []
+  let depth = 0
+  let quote: string | null = null
+  let buf = ''
+  for (const ch of m[2]) {
+    if (quote) {
+      if (ch === quote) quote = null
+    } else if (ch === "'" || ch === '"') {
+      quote = ch
+    } else if (ch === '(') {
+      depth++
+    } else if (ch === ')') {
+      depth--
+    } else if (ch === ',' && depth === 0) {
+      actions.push(buf.trim())
+      buf = ''
+      continue
+    }
+    buf += ch
+  }
+  actions.push(buf.trim())
+  return { table: m[1], actions }
+}
+
+/**
+ * Classifies every statement of a migration. Destructive: DROP TABLE, DROP COLUMN,
+ * TRUNCATE, ALTER COLUMN TYPE and DELETE without WHERE. Warning: a table created
+ * in an exposed schema (SUPABASE_EXPOSED_SCHEMAS) without ENABLE ROW LEVEL SECURITY
+ * in the same script.
+ */
+export function lintSql(sql: string): SqlReport {
+  const statements = splitStatements(sql)
+  const findings: SqlFinding[] = []
+  const created = new Map<string, { line: number, statement: string }>()
+  const rls = new Set<string>()
+  const exposed = ENV.SUPABASE_EXPOSED_SCHEMAS
+
+  for (const { text, line } of statements) {
+    const statement = text.replace(/\s+/g, ' ').slice(0, 200)
+    for (const { rule, re } of RULES) {
+      const m = re.exec(text)
+      if (m) findings.push({ rule, severity: 'destructive', line, statement, table: qualified(m[1]) })
+    }
+    const alter = alterActions(text)
+    if (alter?.actions.some(a => DROP_COLUMN.test(a))) {
+      findings.push({ rule: 'drop_column', severity: 'destructive', line, statement, table: qualified(alter.table) })
+    }
+    const create = new RegExp(String.raw`^create\s+(?:unlogged\s+)?table\s+(?:if\s+not\s+exists\s+)?${IDENT}`, 'i').exec(text)
+    if (create) created.set(qualified(create[1]), { line, statement })
+    const enable = new RegExp(String.raw`^alter\s+table\s+(?:if\s+exists\s+)?(?:only\s+)?${IDENT}[\s\S]*\benable\s+row\s+level\s+security`, 'i').exec(text)
+    if (enable) rls.add(qualified(enable[1]))
+  }
+  for (const [table, at] of created) {
+    if (exposed.includes(table.split('.')[0]) && !rls.has(table)) {
+      findings.push({ rule: 'missing_rls', severity: 'warning', line: at.line, statement: at.statement, table })
+    }
+  }
+
+  const destructive = findings.some(f => f.severity === 'destructive')
+  return {
+    risk: destructive ? 'high' : findings.length > 0 ? 'low' : 'none',
+    destructive,
+    statements: statements.length,
+    findings: findings.sort((a, b) => a.line - b.line)
+  }
+}
+
+/** Markdown section for PR bodies, one block per migration file */
+export function renderSqlReports(reports: Array<{ path: string, report: SqlReport }>) {
+  const lines = ['### Migration risk report']
+  for (const { path, report } of reports) {
+    lines.push('', `**${path}**: risk ${report.risk} (${report.statements} statements)`)
+    for (const f of report.findings) {
+      lines.push(`- ${f.severity === 'destructive' ? ':warning:' : ':information_source:'} \`${f.rule}\` line ${f.line}${f.table ? ` on \`${f.table}\`` : ''}: \`${f.statement}\``)
+    }
+  }
+  return lines.join('\n')
+}
@@ -0,0 +1,44 @@
+import fs from 'fs'
+import path from 'path'
+import { ENV } from './env'
+
+/** Minimal JSON-file backed collection keyed by id. One file per store under ENV.DATA_DIR. */
+export type Store<T> = {
+  get(id: string): T | undefined
+  put(id: string, value: T): T
+  list(): T[]
+}
+
+export function fileStore<T>(name: string): Store<T> {
+  const file = path.join(ENV.DATA_DIR, `${name}.json`)
+  let items: Record<string, T> | null = null
+
+  function load(): Record<string, T> {
+    if (items) return items
+    try {
+      items = JSON.parse(fs.readFileSync(file, 'utf8')) as Record<string, T>
+    } catch (err: any) {
+      if (err?.code !== 'ENOENT') throw err
+      items = {}
+    }
+    return items
+  }
+
+  function save() {
+    fs.mkdirSync(path.dirname(file), { recursive: true })
+    // write-then-rename so a crash never leaves a truncated store behind
+    const tmp = `${file}.${process.pid}.tmp`
+    fs.writeFileSync(tmp, JSON.stringify(items, null, 2))
+    fs.renameSync(tmp, file)
+  }
+
+  return {
+    get: (id) => load()[id],
+    put(id, value) {
+      load()[id] = value
+      save()
+      return value
+    },
+    list: () => Object.values(load())
+  }
+}
@@ -0,0 +1,93 @@
+import { ENV } from './env'
+
+export type StripeMode = 'test' | 'live'
+
+export type StripeRequirements = {
+  currently_due: string[]
+  eventually_due: string[]
+  past_due: string[]
+  pending_verification: string[]
+  disabled_reason: string | null
+  current_deadline: number | null
+}
+
+export type StripeAccount = {
+  id: string
+  object: 'account'
+  charges_enabled: boolean
+  payouts_enabled: boolean
+  details_submitted: boolean
+  capabilities?: Record<string, 'active' | 'inactive' | 'pending'>
+  requirements?: StripeRequirements
+}
+
+export type StripePayout = {
+  id: string
+  object: 'payout'
+  amount: number
+  currency: string
+  status: string
+  created: number
+  arrival_date: number
+  failure_code: string | null
+  failure_message: string | null
+}
+
+export type StripeProduct = { id: string, object: 'product', name: string, livemode: boolean }
+export type StripePrice = {
+  id: string
+  object: 'price'
+  product: string
+  unit_amount: number | null
+  currency: string
+  recurring: { interval: string } | null
+  livemode: boolean
+}
+export type StripeList<T> = { object: 'list', data: T[], has_more: boolean }
+
+// Both secret and restricted keys are accepted, but a key must belong to its mode
+const KEY_PREFIX: Record<StripeMode, RegExp> = { test: /^(?:sk|rk)_test_/, live: /^(?:sk|rk)_live_/ }
+
+function keyFor(mode: StripeMode) {
+  const key = mode === 'live' ? ENV.STRIPE_SECRET_KEY_LIVE : ENV.STRIPE_SECRET_KEY_TEST
+  if (!key) throw new Error(`no_stripe_key: set STRIPE_SECRET_KEY_${mode.toUpperCase()}`)
+  if (!KEY_PREFIX[mode].test(key)) throw new Error(`stripe_key_mode_mismatch: STRIPE_SECRET_KEY_${mode.toUpperCase()} is not a ${mode} key`)
+  return key
+}
+
+/** Stripe's form encoding: nested objects as a[b]=c, arrays as a[0]=c */
+export function encodeForm(params: Record<string, any>, prefix = ''): string[] {
+  const out: string[] = []
+  for (const [k, v] of Object.entries(params)) {
+    if (v === undefined || v === null) continue
+    const name = prefix ? `${prefix}[${k}]` : k
+    if (typeof v === 'object') out.push(...encodeForm(v, name))
+    else out.push(`${encodeURIComponent(name)}=${encodeURIComponent(String(v))}`)
+  }
+  return out
+}
+
+/**
+ * One Stripe API call with the key for `mode`. `account` acts on a connected
+ * account (Stripe-Account header). Errors keep Stripe's type/code/message only.
+ */
+export async function stripeRequest<T>(mode: StripeMode, method: 'GET' | 'POST', path: string, params: Record<string, any> = {}, account?: string): Promise<T> {
+  const headers: Record<string, string> = { Authorization: `Bearer ${keyFor(mode)}`, 'Stripe-Version': ENV.STRIPE_API_VERSION }
+  if (account) headers['Stripe-Account'] = account
+  const query = encodeForm(params).join('&')
+  let url = `${ENV.STRIPE_API_URL}${path}`
+  let body: string | undefined
+  if (method === 'GET') {
+    if (query) url += `?${query}`
+  } else {
+    headers['Content-Type'] = 'application/x-www-form-urlencoded'
+    body = query
+  }
+  const res = await fetch(url, { method, headers, body })
+  const json: any = await res.json().catch(() => ({}))
+  if (!res.ok) {
+    const e = json?.error || {}
+    throw new Error(`stripe_error ${res.status} ${e.type || ''}${e.code ? `/${e.code}` : ''}: ${e.message || 'request failed'}`)
+  }
+  return json as T
+}
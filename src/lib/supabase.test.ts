@@ -0,0 +1,53 @@
+import { after, before, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { spawn, type ChildProcess } from 'child_process'
+import path from 'path'
+import { ENV } from './env'
+import { deployFunction, syncSecrets } from './supabase'
+
+// Runs against scripts/supabase-mock.mjs on a free-ish port
+const port = 54400 + Math.floor(Math.random() * 500)
+let mock: ChildProcess
+
+before(async () => {
+  mock = spawn(process.execPath, [path.join(__dirname, '../../scripts/supabase-mock.mjs')], {
+    env: { ...process.env, MOCK_PORT: String(port), MOCK_TOKEN: 'test-token' },
+    stdio: ['ignore', 'pipe', 'inherit']
+  })
+  await new Promise<void>((resolve, reject) => {
+    mock.stdout!.on('data', (chunk: Buffer) => chunk.toString().includes('listening') && resolve())
+    mock.on('exit', code => reject(new Error(`supabase mock exited with ${code}`)))
+  })
+  Object.assign(ENV, { SUPABASE_API_URL: `http://localhost:${port}`, SUPABASE_ACCESS_TOKEN: 'test-token', SUPABASE_PROJECT_REF_STAGING: 'stagingref' })
+})
+
+after(() => {
+  mock.kill()
+})
+
+test('syncSecrets only sends what changed and removes what was asked', async () => {
+  assert.deepEqual(await syncSecrets('staging', { A: '1', B: '2' }), { projectRef: 'stagingref', created: ['A', 'B'], updated: [], unchanged: [], removed: [] })
+  assert.deepEqual(await syncSecrets('staging', { A: '1', B: '3' }, ['C']), { projectRef: 'stagingref', created: [], updated: ['B'], unchanged: ['A'], removed: [] })
+  assert.deepEqual(await syncSecrets('staging', { A: '1' }, ['B']), { projectRef: 'stagingref', created: [], updated: [], unchanged: ['A'], removed: ['B'] })
+  await assert.rejects(syncSecrets('staging', { SUPABASE_URL: 'x' }), /SUPABASE_/)
+})
+
+test('API errors carry the status but never the secret values', async () => {
+  ENV.SUPABASE_ACCESS_TOKEN = 'wrong-token'
+  try {
+    await assert.rejects(syncSecrets('staging', { A: 'hunter2-secret' }), (err: Error) =>
+      /supabase_api_failed GET \/v1\/projects\/stagingref\/secrets 401/.test(err.message) && !err.message.includes('hunter2-secret'))
+  } finally {
+    ENV.SUPABASE_ACCESS_TOKEN = 'test-token'
+  }
+})
+
+test('deployFunction uploads the bundle and reports the new version', async () => {
+  const files = [{ path: 'index.ts', content: Buffer.from('Deno.serve(() => new Response("ok"))') }]
+  const first = await deployFunction('staging', 'hello', files, { entrypoint_path: 'index.ts', verify_jwt: true })
+  assert.equal(first.projectRef, 'stagingref')
+  assert.equal(first.slug, 'hello')
+  assert.equal(first.version, 1)
+  assert.equal((await deployFunction('staging', 'hello', files, { entrypoint_path: 'index.ts', verify_jwt: true })).version, 2)
+  await assert.rejects(deployFunction('staging', 'hello', files, { entrypoint_path: 'main.ts', verify_jwt: true }), /400: .*Entrypoint main.ts/)
+})
@@ -0,0 +1,82 @@
+import crypto from 'crypto'
+import { ENV } from './env'
+
+export type SupabaseEnv = 'staging' | 'prod'
+
+export function projectRef(env: SupabaseEnv) {
+  const ref = env === 'prod' ? ENV.SUPABASE_PROJECT_REF_PROD : ENV.SUPABASE_PROJECT_REF_STAGING
+  if (!ref) throw new Error(`no_project_ref: set SUPABASE_PROJECT_REF_${env.toUpperCase()}`)
+  return ref
+}
+
+/**
+ * Management API call. Errors carry status and the start of the response text,
+ * never the request body (which may hold secret values).
+ */
+async function api(method: string, path: string, body?: any): Promise<any> {
+  if (!ENV.SUPABASE_ACCESS_TOKEN) throw new Error('no_access_token: set SUPABASE_ACCESS_TOKEN')
+  const isForm = body instanceof FormData
+  const headers: Record<string, string> = { Authorization: `Bearer ${ENV.SUPABASE_ACCESS_TOKEN}` }
+  if (body !== undefined && !isForm) headers['Content-Type'] = 'application/json'
+  const res = await fetch(`${ENV.SUPABASE_API_URL}${path}`, {
+    method,
+    headers,
+    body: isForm ? body : body === undefined ? undefined : JSON.stringify(body)
+  })
+  const text = await res.text()
+  if (!res.ok) throw new Error(`supabase_api_failed ${method} ${path.split('?')[0]} ${res.status}: ${text.slice(0, 200)}`)
+  return text ? JSON.parse(text) : null
+}
+
+export type FunctionFile = { path: string, content: Buffer }
+
+/**
+ * Uploads a function bundle (multipart: metadata + one part per file) and returns
+ * what the API reports: id, slug, version, status.
+ */
+export async function deployFunction(env: SupabaseEnv, slug: string, files: FunctionFile[], meta: {
+  entrypoint_path: string, import_map_path?: string, verify_jwt: boolean
+}) {
+  const form = new FormData()
+  form.append('metadata', JSON.stringify({ name: slug, ...meta }))
+  for (const f of files) form.append('file', new Blob([f.content]), f.path)
+  const ref = projectRef(env)
+  const out = await api('POST', `/v1/projects/${ref}/functions/deploy?slug=${encodeURIComponent(slug)}`, form)
+  return { projectRef: ref, id: out?.id, slug: out?.slug ?? slug, version: out?.version, status: out?.status }
+}
+
+const sha256 = (v: string) => crypto.createHash('sha256').update(v).digest('hex')
+
+export type SecretsDiff = { created: string[], updated: string[], unchanged: string[], removed: string[] }
+
+/**
+ * Sets project secrets for `env`, only sending what differs. The API lists secrets
+ * as name + sha256 digest, which is what the comparison uses; values are never
+ * returned from here.
+ */
+export async function syncSecrets(env: SupabaseEnv, kv: Record<string, string>, remove: string[] = []): Promise<SecretsDiff & { projectRef: string }> {
+  const reserved = Object.keys(kv).filter(k => k.startsWith('SUPABASE_'))
+  if (reserved.length) throw new Error(`invalid: secret names may not start with SUPABASE_ (${reserved.join(', ')})`)
+  const ref = projectRef(env)
+  const existing = new Map<string, string>(((await api('GET', `/v1/projects/${ref}/secrets`)) || []).map((s: any) => [s.name, s.value]))
+
+  const diff: SecretsDiff = { created: [], updated: [], unchanged: [], removed: [] }
+  const changed: Array<{ name: string, value: string }> = []
+  for (const [name, value] of Object.entries(kv)) {
+    const current = existing.get(name)
+    if (current === undefined) diff.created.push(name)
+    else if (current === sha256(value) || current === value) {
+      diff.unchanged.push(name)
+      continue
+    } else diff.updated.push(name)
+    changed.push({ name, value })
+  }
+  if (changed.length) await api('POST', `/v1/projects/${ref}/secrets`, changed)
+
+  const gone = remove.filter(n => existing.has(n) && !(n in kv))
+  if (gone.length) {
+    await api('DELETE', `/v1/projects/${ref}/secrets`, gone)
+    diff.removed.push(...gone)
+  }
+  return { projectRef: ref, ...diff }
+}
@@ -0,0 +1,38 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import crypto from 'crypto'
+import { ENV } from './env'
+import { handleWebhook, verifySignature } from './webhooks'
+
+const sign = (body: Buffer, secret: string) => 'sha256=' + crypto.createHmac('sha256', secret).update(body).digest('hex')
+const status = (fn: () => void) => {
+  try {
+    fn()
+  } catch (err: any) {
+    return err.status
+  }
+  return 200
+}
+
+test('verifySignature refuses every delivery while no secret is configured', () => {
+  ENV.GITHUB_WEBHOOK_SECRET = ''
+  const body = Buffer.from('{}')
+  assert.equal(status(() => verifySignature(body, sign(body, 'anything'))), 503)
+})
+
+test('verifySignature checks the HMAC over the raw body', () => {
+  ENV.GITHUB_WEBHOOK_SECRET = 'test-webhook-secret'
+  const body = Buffer.from('{"action":"opened"}')
+  assert.equal(status(() => verifySignature(body, sign(body, 'test-webhook-secret'))), 200)
+  assert.equal(status(() => verifySignature(body, sign(body, 'other-secret'))), 401)
+  assert.equal(status(() => verifySignature(Buffer.from('{"action":"closed"}'), sign(body, 'test-webhook-secret'))), 401)
+  assert.equal(status(() => verifySignature(body, sign(body, 'test-webhook-secret').replace('sha256=', 'sha1='))), 401)
+  assert.equal(status(() => verifySignature(body, undefined)), 401)
+  assert.equal(status(() => verifySignature(undefined, sign(body, 'test-webhook-secret'))), 401)
+})
+
+test('redelivered ids and unsupported events are ignored', async () => {
+  assert.deepEqual(await handleWebhook('push', 'd1', {}), { handled: false, reason: 'unsupported_event' })
+  assert.equal((await handleWebhook('ping', 'd2', { zen: 'hi' })).handled, true)
+  assert.deepEqual(await handleWebhook('ping', 'd2', { zen: 'hi' }), { handled: false, reason: 'duplicate_delivery' })
+})
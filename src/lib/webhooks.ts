@@ -0,0 +1,47 @@
+import crypto from 'crypto'
+import { ENV } from './env'
+import { httpError } from './errors'
+import { applyPrEvent, PrRecord } from './prs'
+
+export const WEBHOOK_EVENTS = ['pull_request', 'check_suite', 'check_run', 'pull_request_review', 'issue_comment', 'ping'] as const
+
+/** Reacts to a delivery after PR state has been updated; `prs` are the tracked PRs it touched */
+export type WebhookListener = (payload: any, prs: PrRecord[], event: string) => Promise<void> | void
+
+const listeners: Record<string, WebhookListener[]> = {}
+// GitHub redelivers on timeouts; remember recent delivery ids so a retry is a no-op
+const seen = new Set<string>()
+const MAX_SEEN = 1000
+
+export function onWebhook(event: string, fn: WebhookListener) {
+  (listeners[event] ??= []).push(fn)
+}
+
+/** X-Hub-Signature-256 check over the exact bytes GitHub sent */
+export function verifySignature(raw: Buffer | undefined, header: string | undefined) {
+  if (!ENV.GITHUB_WEBHOOK_SECRET) throw httpError(503, 'webhook_not_configured')
+  if (!raw || !header?.startsWith('sha256=')) throw httpError(401, 'bad_signature')
+  const expected = Buffer.from('sha256=' + crypto.createHmac('sha256', ENV.GITHUB_WEBHOOK_SECRET).update(raw).digest('hex'))
+  const got = Buffer.from(header)
+  if (got.length !== expected.length || !crypto.timingSafeEqual(got, expected)) throw httpError(401, 'bad_signature')
+}
+
+export async function handleWebhook(event: string, delivery: string, payload: any) {
+  if (!(WEBHOOK_EVENTS as readonly string[]).includes(event)) return { handled: false, reason: 'unsupported_event' }
+  if (delivery && seen.has(delivery)) return { handled: false, reason: 'duplicate_delivery' }
+  if (delivery) {
+    seen.add(delivery)
+    if (seen.size > MAX_SEEN) seen.delete(seen.values().next().value as string)
+  }
+
+  const prs = applyPrEvent(event, payload)
+  for (const fn of listeners[event] || []) {
+    try {
+      await fn(payload, prs, event)
+    } catch (err) {
+      // one listener failing must not make GitHub retry the whole delivery
+      console.error(`webhook listener for ${event} failed:`, err)
+    }
+  }
+  return { handled: true, prs: prs.map(p => `${p.repo}#${p.number}`) }
+}
@@ -0,0 +1,50 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { inWindow, nextWindowStart, type TimeWindow } from './windows'
+
+const office: TimeWindow = { days: ['mon', 'tue', 'wed', 'thu'], start: '09:00', end: '17:00', tz: 'Europe/Berlin' }
+const night: TimeWindow = { days: ['mon'], start: '22:00', end: '06:00', tz: 'UTC' }
+
+test('inWindow uses the wall clock of the window time zone', () => {
+  // 2026-10-19 is a Monday; Berlin is UTC+2 until 25 Oct
+  assert.equal(inWindow(office, new Date('2026-10-19T07:00:00Z')), true)
+  assert.equal(inWindow(office, new Date('2026-10-19T06:59:00Z')), false)
+  assert.equal(inWindow(office, new Date('2026-10-19T15:00:00Z')), false)
+  assert.equal(inWindow(office, new Date('2026-10-23T10:00:00Z')), false) // Friday
+})
+
+test('nextWindowStart skips to the next listed day', () => {
+  // Friday evening -> Monday 09:00 Berlin
+  assert.equal(nextWindowStart(office, new Date('2026-10-23T16:00:00Z'))?.toISOString(), '2026-10-26T08:00:00.000Z')
+  // Monday before opening -> same day
+  assert.equal(nextWindowStart(office, new Date('2026-10-19T05:00:00Z'))?.toISOString(), '2026-10-19T07:00:00.000Z')
+})
+
+test('nextWindowStart follows DST changes of the zone', () => {
+  // Berlin leaves summer time on Sun 25 Oct 2026: Monday 09:00 is then 08:00Z, the Thursday before 07:00Z
+  assert.equal(nextWindowStart(office, new Date('2026-10-22T16:00:00Z'))?.toISOString(), '2026-10-26T08:00:00.000Z')
+  // New York springs forward on Sun 8 Mar 2026
+  const daily: TimeWindow = { days: ['sat', 'sun'], start: '09:00', end: '10:00', tz: 'America/New_York' }
+  assert.equal(nextWindowStart(daily, new Date('2026-03-07T20:00:00Z'))?.toISOString(), '2026-03-08T13:00:00.000Z')
+  // 02:30 does not exist that night; the window opens right after the gap
+  const gap: TimeWindow = { days: ['sun'], start: '02:30', end: '04:00', tz: 'America/New_York' }
+  assert.equal(nextWindowStart(gap, new Date('2026-03-08T05:00:00Z'))?.toISOString(), '2026-03-08T07:30:00.000Z')
+})
+
+test('overnight windows span midnight', () => {
+  assert.equal(inWindow(night, new Date('2026-10-19T23:00:00Z')), true)  // Monday night
+  assert.equal(inWindow(night, new Date('2026-10-20T05:59:00Z')), true)  // early Tuesday, still Monday's window
+  assert.equal(inWindow(night, new Date('2026-10-20T06:00:00Z')), false)
+  assert.equal(inWindow(night, new Date('2026-10-19T03:00:00Z')), false) // early Monday belongs to Sunday
+  assert.equal(nextWindowStart(night, new Date('2026-10-20T07:00:00Z'))?.toISOString(), '2026-10-26T22:00:00.000Z')
+})
+
+test('nextWindowStart returns null for a window without days', () => {
+  assert.equal(nextWindowStart({ ...office, days: [] }, new Date()), null)
+})
+
+test('nextWindowStart is cheap enough to run on every denied call', () => {
+  const t0 = Date.now()
+  for (let i = 0; i < 1000; i++) nextWindowStart(office, new Date('2026-10-23T16:00:00Z'))
+  assert.ok(Date.now() - t0 < 1000, `1000 calls took ${Date.now() - t0}ms`)
+})
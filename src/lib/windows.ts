@@ -0,0 +1,82 @@
+// Time-window math for policy time_windows (e.g. "Mon–Thu 09:00–17:00 Europe/Berlin").
+
+export const DAYS = ['sun','mon','tue','wed','thu','fri','sat'] as const
+export type Day = typeof DAYS[number]
+
+export type TimeWindow = {
+  days: Day[]     // days the window opens on; an overnight window (start > end) closes the next day
+  start: string   // "HH:MM", inclusive
+  end: string     // "HH:MM", exclusive
+  tz: string      // IANA zone, e.g. "Europe/Berlin"
+}
+
+export function isValidTimeZone(tz: string) {
+  try { new Intl.DateTimeFormat('en-US', { timeZone: tz }); return true } catch { return false }
+}
+
+function minutes(hhmm: string) {
+  const [h, m] = hhmm.split(':').map(Number)
+  return h * 60 + m
+}
+
+// Intl.DateTimeFormat is expensive to build; one per zone is enough
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+function formatter(tz: string) {
+  let f = formatters.get(tz)
+  if (!f) {
+    f = new Intl.DateTimeFormat('en-US', {
+      timeZone: tz, year: 'numeric', month: '2-digit', day: '2-digit',
+      hour: '2-digit', minute: '2-digit', second: '2-digit', hourCycle: 'h23'
+    })
+    formatters.set(tz, f)
+  }
+  return f
+}
+
+/** Wall-clock date and time of `at` in `tz` */
+function localParts(at: Date, tz: string) {
+  const parts = formatter(tz).formatToParts(at)
+  const get = (t: string) => Number(parts.find(p => p.type === t)?.value)
+  return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour'), minute: get('minute'), second: get('second') }
+}
+
+/** How far `tz` is ahead of UTC at `at`, in ms */
+function offsetAt(at: number, tz: string) {
+  const p = localParts(new Date(at), tz)
+  return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - Math.floor(at / 1000) * 1000
+}
+
+/** The instant a wall-clock time in `tz` happens; a time skipped by a DST change lands just after the gap */
+function zonedTime(year: number, month: number, day: number, minute: number, tz: string) {
+  const wall = Date.UTC(year, month - 1, day, 0, minute)
+  const first = wall - offsetAt(wall, tz)
+  const second = wall - offsetAt(first, tz)
+  if (first === second || wall - offsetAt(second, tz) === second) return new Date(second)
+  // neither reads as `wall` locally: it falls in a DST gap
+  return new Date(Math.max(first, second))
+}
+
+export function inWindow(w: TimeWindow, at: Date) {
+  const p = localParts(at, w.tz)
+  const day = DAYS[new Date(Date.UTC(p.year, p.month - 1, p.day)).getUTCDay()]
+  const prev = DAYS[(DAYS.indexOf(day) + 6) % 7]
+  const minute = p.hour * 60 + p.minute
+  const start = minutes(w.start)
+  const end = minutes(w.end)
+  if (start < end) return w.days.includes(day) && minute >= start && minute < end
+  // overnight: the evening part belongs to today's window, the early hours to yesterday's
+  return (w.days.includes(day) && minute >= start) || (w.days.includes(prev) && minute < end)
+}
+
+/** Start of the next open window after `at`, from the window's days and start time; null if it never opens */
+export function nextWindowStart(w: TimeWindow, at: Date): Date | null {
+  const today = localParts(at, w.tz)
+  for (let i = 0; i <= 7; i++) {
+    const date = new Date(Date.UTC(today.year, today.month - 1, today.day + i))
+    if (!w.days.includes(DAYS[date.getUTCDay()])) continue
+    const opens = zonedTime(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate(), minutes(w.start), w.tz)
+    if (opens.getTime() > at.getTime()) return opens
+  }
+  return null
+}
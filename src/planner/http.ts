@@ -0,0 +1,29 @@
+import { ENV } from '../lib/env'
+import type { Planner } from '.'
+
+/**
+ * Delegates to an external (LLM) planning service at PLANNER_URL.
+ * Request: { goal, repo, baseBranch, files: { [path]: content } }
+ * Response: { title?, summary?, edits: Edit[], steps: PlanStep[] }; validated by the caller like any planner output.
+ */
+export const httpPlanner: Planner = {
+  name: 'http',
+  async plan(ctx) {
+    if (!ENV.PLANNER_URL) throw new Error('PLANNER_URL not configured')
+    const files: Record<string, string> = {}
+    for (const p of ['README.md', 'package.json', ...ctx.paths]) {
+      const text = await ctx.readFile(p)
+      if (text !== null) files[p] = text
+    }
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+    if (ENV.PLANNER_API_KEY) headers.Authorization = `Bearer ${ENV.PLANNER_API_KEY}`
+    const r = await fetch(ENV.PLANNER_URL, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ goal: ctx.goal, repo: `${ctx.owner}/${ctx.repo}`, baseBranch: ctx.baseBranch, files })
+    })
+    if (!r.ok) throw new Error(`planner_failed ${r.status}`)
+    const out: any = await r.json()
+    return { title: out.title, summary: out.summary, edits: out.edits || [], steps: out.steps || [] }
+  }
+}
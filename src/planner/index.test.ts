@@ -0,0 +1,54 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { defaultPolicy } from '../policy'
+import { getPlanner, validatePlan, type PlanContext } from '.'
+
+const files: Record<string, string> = {
+  'package.json': '{\n  "name": "app",\n  "version": "1.4.2"\n}\n',
+  'docs/RELEASE_NOTES.md': '# Notes\n\n## Added\n\n## Fixed\n- Older fix\n',
+  'supabase/migrations/0001_init.sql': 'create table t (id int);\n'
+}
+
+const ctx = (goal: string): PlanContext => ({
+  goal, owner: 'acme', repo: 'app', baseBranch: 'main', paths: [],
+  readFile: async p => files[p] ?? null
+})
+
+const plan = (goal: string) => getPlanner('template').plan(ctx(goal))
+
+test('the template planner turns each clause into edits or steps', async () => {
+  const out = await plan('bump minor version; add release note "Faster login" under fixed then create preview on render')
+  assert.deepEqual(out.edits[0], {
+    op: 'replace', path: 'package.json', search: '"version": "1.4.2"', replace: '"version": "1.5.0"', isRegex: false, all: false
+  })
+  assert.equal(out.edits[1].op, 'write')
+  assert.match((out.edits[1] as { content: string }).content, /## Fixed\n- Faster login\n- Older fix/)
+  assert.deepEqual(out.steps, [{ tool: 'deploy.create_preview', args: { provider: 'render' } }])
+})
+
+test('the template planner reads migrations from the repo', async () => {
+  const out = await plan('run migration supabase/migrations/0001_init.sql')
+  assert.deepEqual(out.steps[0].args, { path: 'supabase/migrations/0001_init.sql', sql: 'create table t (id int);\n' })
+  await assert.rejects(plan('run migration supabase/migrations/0002_missing.sql'), { status: 422, code: 'plan_failed' })
+})
+
+test('the template planner refuses goals it has no template for', async () => {
+  await assert.rejects(plan('rewrite the app in rust'), { status: 422, code: 'no_plan' })
+})
+
+test('validatePlan checks paths against the allowlist', async () => {
+  const issues = validatePlan(defaultPolicy(), 'acme/app', await plan('create secrets/.env with "x"'))
+  assert.match(issues[0].message, /path_not_allowed/)
+  assert.deepEqual(validatePlan(defaultPolicy(), 'acme/app', await plan('create docs/new.md with "hi"')), [])
+})
+
+test('validatePlan resolves Stripe actions with their mode, as /run does', () => {
+  const step = (mode: string) => ({ edits: [], steps: [{ tool: 'stripe.read_connect_account', args: { accountId: 'acct_1', mode } }] })
+  assert.deepEqual(validatePlan(defaultPolicy(), 'acme/app', step('test')), [])
+  assert.deepEqual(validatePlan(defaultPolicy(), 'acme/app', step('live')).map(i => i.message), ['policy_denied: stripe.read_connect_account'])
+})
+
+test('validatePlan rejects steps for unknown tools', () => {
+  const issues = validatePlan(defaultPolicy(), 'acme/app', { edits: [], steps: [{ tool: 'ftp.upload', args: {} }] })
+  assert.deepEqual(issues, [{ path: ['steps', 0, 'tool'], message: 'Unknown tool: ftp.upload' }])
+})
@@ -0,0 +1,82 @@
+import { z } from 'zod'
+import { Edits, PlanStep, type EditT } from '../types'
+import { isPathAllowed } from '../lib/allowlist'
+import { editPaths } from '../lib/edits'
+import { policyAction, resolveTool } from '../adapters'
+import { decide, isPathAllowedByPolicy, type Policy } from '../policy'
+import { ENV } from '../lib/env'
+import { templatePlanner } from './template'
+import { httpPlanner } from './http'
+
+export type PlanStepT = z.infer<typeof PlanStep>
+
+/** What a planner sees: the goal plus read access to the target repo at the base branch head */
+export type PlanContext = {
+  goal: string
+  owner: string
+  repo: string
+  baseBranch: string
+  // extra files the caller wants the planner to consider
+  paths: string[]
+  readFile(path: string): Promise<string | null>
+}
+
+export type PlannerOutput = {
+  title?: string
+  summary?: string
+  edits: EditT[]
+  steps: PlanStepT[]
+}
+
+export type Planner = {
+  name: string
+  plan(ctx: PlanContext): Promise<PlannerOutput>
+}
+
+const planners: Record<string, Planner> = {
+  template: templatePlanner,
+  http: httpPlanner
+}
+
+export function registerPlanner(p: Planner) {
+  planners[p.name] = p
+}
+
+/** ENV.PLANNER picks the backend; the deterministic template planner is the default */
+export function getPlanner(name = ENV.PLANNER): Planner {
+  const p = planners[name]
+  if (!p) throw new Error(`unknown planner: ${name}`)
+  return p
+}
+
+/**
+ * Checks planner output the same way /apply and /run would: schemas, the
+ * allowlist, paths_allow and tool allow/deny (with the action name /run's policy
+ * check uses, e.g. "read_connect_account:test"). Returns zod-style issues.
+ */
+export function validatePlan(policy: Policy, repoKey: string, out: PlannerOutput, env = 'staging') {
+  const issues: Array<{ path: (string | number)[], message: string }> = []
+  const edits = Edits.safeParse(out.edits)
+  if (!edits.success) issues.push(...edits.error.issues.map(i => ({ path: ['edits', ...i.path], message: i.message })))
+  const steps = z.array(PlanStep).safeParse(out.steps)
+  if (!steps.success) issues.push(...steps.error.issues.map(i => ({ path: ['steps', ...i.path], message: i.message })))
+  if (issues.length) return issues
+
+  edits.data!.forEach((e, i) => {
+    for (const p of editPaths(e)) {
+      if (!isPathAllowed(p)) issues.push({ path: ['edits', i], message: `path_not_allowed: ${p}` })
+      else if (!isPathAllowedByPolicy(policy, repoKey, p)) issues.push({ path: ['edits', i], message: `policy_denied (paths_allow): ${p}` })
+    }
+  })
+  if (edits.data!.length && !decide(policy, repoKey, 'github', 'write_file', env).allowed) {
+    issues.push({ path: ['edits'], message: 'policy_denied: github.write_file' })
+  }
+  steps.data!.forEach((s, i) => {
+    const r = resolveTool(s.tool)
+    if (!r) issues.push({ path: ['steps', i, 'tool'], message: `Unknown tool: ${s.tool}` })
+    else if (!decide(policy, repoKey, r.tool, policyAction(r.tool, r.action, s.args), env).allowed) {
+      issues.push({ path: ['steps', i, 'tool'], message: `policy_denied: ${s.tool}` })
+    }
+  })
+  return issues
+}
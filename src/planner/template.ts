@@ -0,0 +1,129 @@
+import { httpError } from '../lib/errors'
+import type { EditT } from '../types'
+import type { PlanContext, Planner, PlannerOutput, PlanStepT } from '.'
+
+// Deterministic planner: each clause of the goal (split on ";", newlines or "then")
+// must match one of these templates. Quoted text may use "double quotes" or `backticks`.
+const Q = '(?:"([^"]*)"|`([^`]*)`)'
+const P = '([\\w./-]+)'
+
+type Rule = {
+  example: string
+  re: RegExp
+  build(m: string[], ctx: PlanContext): Promise<{ edits?: EditT[], steps?: PlanStepT[] }>
+}
+
+// Quoted groups come in pairs (double quotes or backticks); take whichever matched
+const q = (m: string[], i: number) => m[i] ?? m[i + 1] ?? ''
+
+async function mustRead(ctx: PlanContext, path: string) {
+  const text = await ctx.readFile(path)
+  if (text === null) throw httpError(422, 'plan_failed', { message: `${path} not found on ${ctx.baseBranch}` })
+  return text
+}
+
+function bump(version: string, part: string) {
+  const [major, minor, patch] = version.split('.').map(n => parseInt(n, 10))
+  if ([major, minor, patch].some(n => Number.isNaN(n))) throw httpError(422, 'plan_failed', { message: `Unparseable version ${version}` })
+  if (part === 'major') return `${major + 1}.0.0`
+  if (part === 'minor') return `${major}.${minor + 1}.0`
+  return `${major}.${minor}.${patch + 1}`
+}
+
+async function setVersion(ctx: PlanContext, next: (cur: string) => string): Promise<{ edits: EditT[] }> {
+  const pkg = JSON.parse(await mustRead(ctx, 'package.json'))
+  const to = next(String(pkg.version || '0.0.0'))
+  return { edits: [{ op: 'replace', path: 'package.json', search: `"version": "${pkg.version}"`, replace: `"version": "${to}"`, isRegex: false, all: false }] }
+}
+
+const RULES: Rule[] = [
+  // before "create <path>", which would otherwise read "preview" as a file name
+  {
+    example: 'create preview on vercel',
+    re: /^(?:create|deploy)\s+(?:a\s+)?preview(?:\s+on\s+(vercel|render))?$/i,
+    build: async m => ({ steps: [{ tool: 'deploy.create_preview', args: { provider: (m[1] || 'vercel').toLowerCase() } }] })
+  },
+  {
+    example: 'replace "old" with "new" in src/file.ts',
+    re: new RegExp(`^replace\\s+${Q}\\s+with\\s+${Q}\\s+in\\s+${P}$`, 'i'),
+    build: async m => ({ edits: [{ op: 'replace', path: m[5], search: q(m, 1), replace: q(m, 3), isRegex: false, all: true }] })
+  },
+  {
+    example: 'append "text" to docs/notes.md',
+    re: new RegExp(`^append\\s+${Q}\\s+to\\s+${P}$`, 'i'),
+    build: async m => ({ edits: [{ op: 'write', path: m[3], content: q(m, 1), encoding: 'utf8', mode: 'append' }] })
+  },
+  {
+    example: 'create docs/new.md with "content"',
+    re: new RegExp(`^(?:create|add)\\s+(?:file\\s+)?${P}(?:\\s+with\\s+${Q})?$`, 'i'),
+    build: async m => ({ edits: [{ op: 'write', path: m[1], content: q(m, 2), encoding: 'utf8', mode: 'create' }] })
+  },
+  {
+    example: 'rename src/a.ts to src/b.ts',
+    re: new RegExp(`^(?:rename|move)\\s+${P}\\s+to\\s+${P}$`, 'i'),
+    build: async m => ({ edits: [{ op: 'rename', from: m[1], to: m[2] }] })
+  },
+  {
+    example: 'delete docs/old.md',
+    re: new RegExp(`^(?:delete|remove)\\s+(?:file\\s+)?${P}$`, 'i'),
+    build: async m => ({ edits: [{ op: 'delete', path: m[1] }] })
+  },
+  {
+    example: 'make scripts/run.sh executable',
+    re: new RegExp(`^make\\s+${P}\\s+executable$`, 'i'),
+    build: async m => ({ edits: [{ op: 'chmod', path: m[1], mode: '100755' }] })
+  },
+  {
+    example: 'bump minor version',
+    re: /^bump\s+(major|minor|patch)\s+version$/i,
+    build: (m, ctx) => setVersion(ctx, cur => bump(cur, m[1].toLowerCase()))
+  },
+  {
+    example: 'set version to 1.2.3',
+    re: /^(?:set|bump)\s+version\s+to\s+(\d+\.\d+\.\d+)$/i,
+    build: (m, ctx) => setVersion(ctx, () => m[1])
+  },
+  {
+    example: 'add release note "Fixed login" under fixed',
+    re: new RegExp(`^add\\s+release\\s+note\\s+${Q}(?:\\s+under\\s+(added|changed|fixed))?$`, 'i'),
+    build: async (m, ctx) => {
+      const path = 'docs/RELEASE_NOTES.md'
+      const section = (m[3] || 'added').toLowerCase()
+      const heading = `## ${section[0].toUpperCase()}${section.slice(1)}`
+      const text = await mustRead(ctx, path)
+      const at = text.indexOf(`${heading}\n`)
+      if (at < 0) throw httpError(422, 'plan_failed', { message: `${path} has no "${heading}" section` })
+      const insertAt = at + heading.length + 1
+      const next = `${text.slice(0, insertAt)}- ${q(m, 1)}\n${text.slice(insertAt)}`
+      return { edits: [{ op: 'write', path, content: next, encoding: 'utf8', mode: 'overwrite' }] }
+    }
+  },
+  {
+    example: 'send test email to dev@example.com',
+    re: /^send\s+(?:a\s+)?test\s+email\s+to\s+(\S+@\S+)$/i,
+    build: async m => ({ steps: [{ tool: 'email.send_test', args: { to: m[1] } }] })
+  },
+  {
+    example: 'run migration supabase/migrations/0001_init.sql',
+    re: new RegExp(`^(?:run|apply)\\s+migration\\s+${P}$`, 'i'),
+    build: async (m, ctx) => ({ steps: [{ tool: 'supabase.sql_migrate', args: { path: m[1], sql: await mustRead(ctx, m[1]) } }] })
+  }
+]
+
+export const TEMPLATE_EXAMPLES = RULES.map(r => r.example)
+
+export const templatePlanner: Planner = {
+  name: 'template',
+  async plan(ctx): Promise<PlannerOutput> {
+    const clauses = ctx.goal.split(/\s*(?:;|\n|\bthen\b)\s*/i).map(c => c.trim().replace(/\.$/, '')).filter(Boolean)
+    const out: PlannerOutput = { edits: [], steps: [] }
+    for (const clause of clauses) {
+      const rule = RULES.find(r => r.re.test(clause))
+      if (!rule) throw httpError(422, 'no_plan', { clause, supported: TEMPLATE_EXAMPLES })
+      const built = await rule.build(clause.match(rule.re)!, ctx)
+      if (built.edits) out.edits.push(...built.edits)
+      if (built.steps) out.steps.push(...built.steps)
+    }
+    return out
+  }
+}
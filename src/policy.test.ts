@@ -0,0 +1,72 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { decide, loadPolicy, parsePolicy, smokeTargetsFor } from './policy'
+
+const STRICT = `
+version: 1
+repos:
+  default:
+    tools:
+      github: { allow: [read_file] }
+`
+
+/** Just enough of Octokit for loadPolicy: default branch "trunk" holds the policy, "loose" has none */
+function fakeGitHub(files: Record<string, string | null>) {
+  const shas: Record<string, string> = { trunk: 'sha-trunk', loose: 'sha-loose', main: 'sha-main' }
+  const reads: string[] = []
+  const gh = {
+    rest: {
+      repos: {
+        get: async () => ({ data: { default_branch: 'trunk' } }),
+        getBranch: async ({ branch }: { branch: string }) => ({ data: { commit: { sha: shas[branch] } } }),
+        getContent: async ({ ref }: { ref: string }) => {
+          reads.push(ref)
+          const text = files[ref]
+          if (text == null) throw Object.assign(new Error('Not Found'), { status: 404 })
+          return { data: { type: 'file', encoding: 'base64', content: Buffer.from(text).toString('base64') } }
+        }
+      }
+    }
+  }
+  return { gh, reads }
+}
+
+test('loadPolicy reads the policy at the head of the default branch', async () => {
+  const { gh, reads } = fakeGitHub({ 'sha-trunk': STRICT, 'sha-loose': null })
+  const policy = await loadPolicy(gh, 'acme', 'policy-test-1')
+  assert.deepEqual(reads, ['sha-trunk'])
+  assert.equal(decide(policy, 'acme/policy-test-1', 'github', 'read_file').allowed, true)
+  // the embedded default would allow write_file; the repo's policy does not
+  assert.equal(decide(policy, 'acme/policy-test-1', 'github', 'write_file').allowed, false)
+})
+
+test('loadPolicy rejects an invalid policy file instead of falling back', async () => {
+  const { gh } = fakeGitHub({ 'sha-trunk': 'version: 2\nrepos: {}\n' })
+  await assert.rejects(loadPolicy(gh, 'acme', 'policy-test-2'), { status: 422, code: 'invalid_policy' })
+})
+
+test('time_windows with equal start and end are rejected', () => {
+  const yaml = (start: string, end: string) => `
+version: 1
+repos:
+  default:
+    tools: {}
+    time_windows:
+      "supabase.sql_migrate": { days: [mon], start: "${start}", end: "${end}", tz: UTC }
+`
+  assert.throws(() => parsePolicy(yaml('09:00', '09:00')), { code: 'invalid_policy' })
+  assert.doesNotThrow(() => parsePolicy(yaml('22:00', '06:00')))
+})
+
+test('smoke_targets must be http(s) URLs and are matched by origin', () => {
+  const yaml = (target: string) => `
+version: 1
+repos:
+  default:
+    tools: {}
+    smoke_targets: ["${target}"]
+`
+  assert.deepEqual(smokeTargetsFor(parsePolicy(yaml('https://staging.example.com/app')), 'acme/app'), ['https://staging.example.com'])
+  assert.throws(() => parsePolicy(yaml('file:///etc/passwd')), { code: 'invalid_policy' })
+  assert.throws(() => parsePolicy(yaml('not a url')), { code: 'invalid_policy' })
+})
@@ -1,17 +1,76 @@
-import fs from 'fs'
-import path from 'path'
+import { z } from 'zod'
+import { parse as parseYaml } from 'yaml'
+import { httpError } from './lib/errors'
+import { defaultBranch, getFile, decode, mainSha } from './lib/github'
+import { DAYS, inWindow, isValidTimeZone, nextWindowStart } from './lib/windows'
+import { isWorkflowPath, matchesGlob, SAFE_WRITE_GLOBS } from './lib/allowlist'
 
-type Rule = {
-  tools: Record<string, { allow?: string[], deny?: string[], approvals?: any[] }>
-  paths_allow?: string[]
-  rate_limits?: Record<string, number>
-  time_windows?: Record<string, any>
+export const POLICY_PATH = '.butler/policy.yaml'
+
+const Regex = z.string().refine(re => { try { new RegExp(re); return true } catch { return false } }, 'Invalid regular expression')
+
+// An action (e.g. "sql_migrate:prod" or "write_workflow") that must be signed off by `quorum` of `approvers` first
+const ApprovalRule = z.object({
+  action: z.string(),
+  approvers: z.array(z.string()).min(1),
+  quorum: z.number().int().positive().optional(),
+  expires_in_hours: z.number().positive().optional()
+}).strict().refine(a => (a.quorum ?? 1) <= a.approvers.length, 'quorum exceeds the number of approvers')
+
+// Objects are strict so a misspelt key (e.g. "denny") is an error instead of a silently ignored restriction.
+const ToolRule = z.object({
+  allow: z.array(z.string()).optional(),
+  deny: z.array(z.string()).optional(),
+  approvals: z.array(ApprovalRule).optional()
+}).strict()
+const HHMM = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected HH:MM')
+const TimeWindowSchema = z.object({
+  days: z.array(z.enum(DAYS)).min(1),
+  start: HHMM,
+  end: HHMM,
+  tz: z.string().refine(isValidTimeZone, 'Unknown time zone')
+}).strict().refine(w => w.start !== w.end, { message: 'start and end must differ (start > end spans midnight)', path: ['end'] })
+export const MERGE_METHODS = ['squash', 'merge', 'rebase'] as const
+const AutoMergeRule = z.object({
+  methods: z.array(z.enum(MERGE_METHODS)).min(1).optional()
+}).strict()
+// auto_merge is keyed by SAFE_WRITE_GLOBS entries, e.g. "docs/**": {} or "*.md": { methods: [squash] }
+const AutoMergeKey = z.string().refine(g => SAFE_WRITE_GLOBS.includes(g) && !g.startsWith('.github/workflows'),
+  'Expected a non-workflow glob from SAFE_WRITE_GLOBS')
+// rate_limits / time_windows are keyed "tool.action" or "tool.action:env", e.g. "github.open_pr": 10 (calls per hour)
+const RuleSchema = z.object({
+  tools: z.record(ToolRule),
+  paths_allow: z.array(Regex).optional(),
+  rate_limits: z.record(z.number().int().nonnegative()).optional(),
+  time_windows: z.record(TimeWindowSchema).optional(),
+  // accepted secret-scanner findings: a fingerprint, or { path: regex, rule? }
+  secrets_allow: z.array(z.union([z.string(), z.object({ path: Regex, rule: z.string().optional() }).strict()])).optional(),
+  auto_merge: z.record(AutoMergeKey, AutoMergeRule).optional(),
+  // origins smoke.run may call besides the repo's own previews, e.g. "https://staging.example.com"
+  smoke_targets: z.array(z.string().url().refine(u => /^https?:\/\//.test(u), 'Expected an http(s) URL')).optional()
+}).strict()
+export const PolicySchema = z.object({
+  version: z.literal(1),
+  repos: z.record(RuleSchema)
+}).strict()
+
+type Rule = z.infer<typeof RuleSchema>
+export type Policy = z.infer<typeof PolicySchema>
+
+export type Decision = {
+  allowed: boolean
+  tool: string
+  action: string
+  env: string
+  // Which entry decided, e.g. "repos.default.tools.supabase.deny[sql_migrate:prod]"; null = nothing matched
+  rule: string | null
+  reason?: 'denied' | 'rate_limited' | 'outside_time_window'
+  retryAfter?: number          // seconds, when rate_limited
+  nextWindow?: string | null   // ISO time the window next opens, when outside_time_window
 }
-export type Policy = { version: number; repos: Record<string, Rule> }
 
-export function loadPolicy(): Policy {
-  // Policy file lives in the target repo as .butler/policy.yaml in a real setup.
-  // For first run, embed a safe default:
+/** Embedded policy, used only when the target repo has no .butler/policy.yaml */
+export function defaultPolicy(): Policy {
   return {
     version: 1,
     repos: {
@@ -19,22 +78,214 @@ export function loadPolicy(): Policy {
         tools: {
           "github": { allow: ["read_file","write_file","open_pr"] },
           "supabase": { allow: ["deploy_function","set_function_env","invoke_rpc","sql_migrate:staging"], deny:["sql_migrate:prod"] },
-          "stripe": { allow: ["read_connect_account:test"] },
+          "stripe": { allow: ["read_connect_account:test","list_failed_payouts:test","create_product:test","create_price:test","replay_event:test"] },
           "deploy": { allow: ["create_preview"] },
-          "email": { allow: ["send_test"] }
+          "smoke": { allow: ["run"] },
+          "email": { allow: ["send_test"] },
+          "chatops": { allow: ["plan","apply","approve","rebase"] }
         },
-        paths_allow: ["^src/","^supabase/","^\\.github/","^package\\.json$","^tsconfig\\.json$"]
+        paths_allow: ["^src/","^supabase/","^docs/","^config/","^\\.github/","^[^/]+\\.md$","^package\\.json$","^tsconfig\\.json$"]
       }
     }
   }
 }
 
-export function isAllowed(policy: Policy, repo: string, tool: string, action: string, env='staging') {
-  const rule = policy.repos[repo] || policy.repos['default']
-  const t = rule.tools[tool]
-  if (!t) return false
+/** Parses and validates policy YAML; throws a 422 invalid_policy HttpError rather than falling back */
+export function parsePolicy(text: string, source = POLICY_PATH): Policy {
+  let raw: unknown
+  try {
+    raw = parseYaml(text)
+  } catch (err: any) {
+    throw httpError(422, 'invalid_policy', { source, details: [{ path: [], message: err?.message || String(err) }] })
+  }
+  const parsed = PolicySchema.safeParse(raw)
+  if (!parsed.success) throw httpError(422, 'invalid_policy', { source, details: parsed.error.issues })
+  return parsed.data
+}
+
+const policyCache = new Map<string, Policy>()
+const POLICY_CACHE_MAX = 200
+
+/**
+ * Loads .butler/policy.yaml from the head of the target repo's default branch, never
+ * from a branch the caller names (which could lack the file or loosen it).
+ * Cached per repo+sha, so a pushed policy change takes effect on the next call.
+ */
+export async function loadPolicy(gh: any, owner: string, repo: string): Promise<Policy> {
+  const sha = await mainSha(gh, owner, repo, await defaultBranch(gh, owner, repo))
+  const key = `${owner}/${repo}@${sha}`
+  const hit = policyCache.get(key)
+  if (hit) return hit
+
+  const file = await getFile(gh, owner, repo, POLICY_PATH, sha)
+  if (file && !('content' in file)) {
+    throw httpError(422, 'invalid_policy', { source: POLICY_PATH, details: [{ path: [], message: 'Not a file' }] })
+  }
+  const policy = file ? parsePolicy(decode(file), `${owner}/${repo}:${POLICY_PATH}@${sha}`) : defaultPolicy()
+
+  if (policyCache.size >= POLICY_CACHE_MAX) policyCache.delete(policyCache.keys().next().value as string)
+  policyCache.set(key, policy)
+  return policy
+}
+
+function ruleFor(policy: Policy, repo: string): [string, Rule] {
+  return policy.repos[repo] ? [repo, policy.repos[repo]] : ['default', policy.repos['default']]
+}
+
+export function decide(policy: Policy, repo: string, tool: string, action: string, env='staging'): Decision {
+  const [name, rule] = ruleFor(policy, repo)
+  const base = { tool, action, env }
+  const t = rule?.tools[tool]
+  if (!t) return { ...base, allowed: false, rule: null }
   const key = action + (env && action.includes('sql_migrate') ? `:${env}` : '')
-  if (t.deny?.some(a => a === key || a === action)) return false
-  if (t.allow?.some(a => a === key || a === action)) return true
-  return false
+  const denied = t.deny?.find(a => a === key || a === action)
+  if (denied) return { ...base, allowed: false, rule: `repos.${name}.tools.${tool}.deny[${denied}]` }
+  const allowed = t.allow?.find(a => a === key || a === action)
+  if (allowed) return { ...base, allowed: true, rule: `repos.${name}.tools.${tool}.allow[${allowed}]` }
+  return { ...base, allowed: false, rule: null }
+}
+
+export function isAllowed(policy: Policy, repo: string, tool: string, action: string, env='staging') {
+  return decide(policy, repo, tool, action, env).allowed
+}
+
+const RATE_WINDOW_MS = 60 * 60 * 1000
+// `${repo}|${tool}.${action}` -> recent calls; pruned to the last hour on every read
+const calls = new Map<string, Array<{ at: number, env: string }>>()
+
+function recentCalls(repo: string, tool: string, action: string, now: number) {
+  const key = `${repo}|${tool}.${action}`
+  const list = (calls.get(key) || []).filter(c => now - c.at < RATE_WINDOW_MS)
+  calls.set(key, list)
+  return list
+}
+
+/** Most specific key present in a rate_limits/time_windows map: "tool.action:env" before "tool.action" */
+function scopedKey(map: Record<string, unknown> | undefined, tool: string, action: string, env: string) {
+  if (!map) return null
+  return [`${tool}.${action}:${env}`, `${tool}.${action}`].find(k => k in map) || null
+}
+
+/**
+ * decide() plus time_windows and rate_limits. Does not count the call;
+ * callers that go on to run the action use enforce(), which does.
+ */
+export function evaluate(policy: Policy, repo: string, tool: string, action: string, env='staging', now = new Date()): Decision {
+  const d = decide(policy, repo, tool, action, env)
+  if (!d.allowed) return { ...d, reason: 'denied' }
+  const [name, rule] = ruleFor(policy, repo)
+
+  const wKey = scopedKey(rule.time_windows, tool, action, env)
+  if (wKey) {
+    const w = rule.time_windows![wKey]
+    if (!inWindow(w, now)) {
+      const next = nextWindowStart(w, now)
+      return {
+        ...d, allowed: false, reason: 'outside_time_window',
+        rule: `repos.${name}.time_windows[${wKey}]`, nextWindow: next ? next.toISOString() : null
+      }
+    }
+  }
+
+  const rKey = scopedKey(rule.rate_limits, tool, action, env)
+  if (rKey) {
+    const limit = rule.rate_limits![rKey]
+    const recent = recentCalls(repo, tool, action, now.getTime()).filter(c => rKey.includes(':') ? c.env === env : true)
+    if (recent.length >= limit) {
+      const oldest = recent.length ? recent[0].at : now.getTime()
+      return {
+        ...d, allowed: false, reason: 'rate_limited', rule: `repos.${name}.rate_limits[${rKey}]`,
+        retryAfter: Math.max(1, Math.ceil((oldest + RATE_WINDOW_MS - now.getTime()) / 1000))
+      }
+    }
+  }
+  return d
+}
+
+export type ApprovalRequirement = {
+  tool: string
+  action: string
+  env: string
+  approvers: string[]
+  quorum: number
+  expiresInHours: number
+  rule: string
+}
+
+/** The approvals entry covering tool.action in env ("action:env" or bare "action"), if any */
+export function approvalRequirement(policy: Policy, repo: string, tool: string, action: string, env='staging'): ApprovalRequirement | null {
+  const [name, rule] = ruleFor(policy, repo)
+  const list = rule?.tools[tool]?.approvals || []
+  const i = list.findIndex(a => a.action === `${action}:${env}` || a.action === action)
+  if (i < 0) return null
+  const a = list[i]
+  return {
+    tool, action, env,
+    approvers: a.approvers,
+    quorum: a.quorum ?? 1,
+    expiresInHours: a.expires_in_hours ?? 24,
+    rule: `repos.${name}.tools.${tool}.approvals[${i}]`
+  }
+}
+
+export function secretsAllowFor(policy: Policy, repo: string) {
+  const [, rule] = ruleFor(policy, repo)
+  return rule?.secrets_allow || []
+}
+
+/** Origins of the policy's smoke_targets */
+export function smokeTargetsFor(policy: Policy, repo: string) {
+  const [, rule] = ruleFor(policy, repo)
+  return (rule?.smoke_targets || []).map(u => new URL(u).origin)
+}
+
+/**
+ * Whether a PR touching `paths` may be merged without a human. Every path must fall
+ * under an allowlist glob that has an auto_merge entry permitting `method`; workflow
+ * paths never qualify. Returns the first path that does not, with the reason.
+ */
+export function autoMergeDecision(policy: Policy, repo: string, paths: string[], method: typeof MERGE_METHODS[number]) {
+  const [name, rule] = ruleFor(policy, repo)
+  for (const p of paths) {
+    if (isWorkflowPath(p)) return { allowed: false as const, path: p, reason: 'workflow_path', rule: null }
+    const glob = SAFE_WRITE_GLOBS.find(g => {
+      const r = rule?.auto_merge?.[g]
+      return r && matchesGlob(p, [g]) && (!r.methods || r.methods.includes(method))
+    })
+    if (!glob) return { allowed: false as const, path: p, reason: 'no_auto_merge_rule', rule: null }
+  }
+  return { allowed: true as const, rule: `repos.${name}.auto_merge` }
+}
+
+/** paths_allow regexes; a rule without paths_allow places no extra restriction */
+export function isPathAllowedByPolicy(policy: Policy, repo: string, p: string) {
+  const [, rule] = ruleFor(policy, repo)
+  if (!rule?.paths_allow) return true
+  return rule.paths_allow.some(re => new RegExp(re).test(p))
+}
+
+/**
+ * Throws unless evaluate() allows tool.action in env: 403 policy_denied,
+ * 403 outside_time_window (with nextWindow) or 429 rate_limited (with retryAfter).
+ * Counts the call against rate_limits unless `consume` is false (pre-flight checks).
+ */
+export function enforce(policy: Policy, repo: string, tool: string, action: string, env='staging', { consume = true } = {}) {
+  const now = new Date()
+  const d = evaluate(policy, repo, tool, action, env, now)
+  if (!d.allowed) {
+    const details = { tool, action, env, rule: d.rule }
+    if (d.reason === 'rate_limited') throw httpError(429, 'rate_limited', { ...details, retryAfter: d.retryAfter })
+    if (d.reason === 'outside_time_window') throw httpError(403, 'outside_time_window', { ...details, nextWindow: d.nextWindow })
+    throw httpError(403, 'policy_denied', details)
+  }
+  if (consume) recentCalls(repo, tool, action, now.getTime()).push({ at: now.getTime(), env })
+  return d
+}
+
+/** Throws a 403 policy_denied HttpError when a path falls outside paths_allow */
+export function enforcePath(policy: Policy, repo: string, tool: string, action: string, env: string, p: string) {
+  if (!isPathAllowedByPolicy(policy, repo, p)) {
+    const [name] = ruleFor(policy, repo)
+    throw httpError(403, 'policy_denied', { tool, action, env, path: p, rule: `repos.${name}.paths_allow` })
+  }
 }
@@ -15,7 +15,22 @@ export const EditWrite = z.object({
   encoding: z.enum(['utf8','base64']).optional().default('utf8'),
   mode: z.enum(['create','overwrite','append']).optional().default('overwrite')
 })
-export const Edits = z.array(z.union([EditReplace, EditWrite]))
+export const EditDelete = z.object({
+  op: z.literal('delete'),
+  path: z.string()
+})
+export const EditRename = z.object({
+  op: z.literal('rename'),
+  from: z.string(),
+  to: z.string()
+})
+export const EditChmod = z.object({
+  op: z.literal('chmod'),
+  path: z.string(),
+  mode: z.enum(['100644','100755'])
+})
+export const Edits = z.array(z.union([EditReplace, EditWrite, EditDelete, EditRename, EditChmod]))
+export type EditT = z.infer<typeof Edits>[number]
 
 export const ApplyReq = z.object({
   owner: z.string().optional(),
@@ -24,7 +39,26 @@ export const ApplyReq = z.object({
   branch: z.string(),
   prTitle: z.string(),
   prBody: z.string().optional().default(''),
-  edits: Edits
+  edits: Edits.min(1),
+  // reuse: commit on top of an existing branch; reset: rebuild the branch from baseBranch (Butler-owned branches only)
+  branchStrategy: z.enum(['reuse', 'reset']).optional(),
+  labels: z.array(z.string()).optional(),
+  reviewers: z.array(z.string()).optional(),
+  workflowApprovalKey: z.string().optional(),
+  dryRun: z.boolean().optional().default(false),
+  // set when the body was expanded from a stored plan (see POST /apply { planId })
+  planId: z.string().optional(),
+  rebase: z.boolean().optional().default(false),
+  // follow CI on the new commit (GET /apply/{applyId}/checks); optionally label/comment the PR once it settles
+  runChecks: z.union([
+    z.boolean(),
+    z.object({ label: z.boolean().optional().default(false), comment: z.boolean().optional().default(false) })
+  ]).optional().default(false),
+  // land the PR without a human once required checks and reviews pass; the policy's auto_merge decides which paths qualify
+  merge: z.object({
+    method: z.enum(['squash', 'merge', 'rebase']).optional().default('squash'),
+    when: z.literal('checks_pass').optional().default('checks_pass')
+  }).optional()
 })
 export type ApplyReqT = z.infer<typeof ApplyReq>
 